@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "tech_specs" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "generator" TEXT NOT NULL,
+    "overview" TEXT NOT NULL,
+    "goals" TEXT[],
+    "nonGoals" TEXT[],
+    "requirements" TEXT[],
+    "architecture" TEXT[],
+    "openQuestions" TEXT[],
+    "risks" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tech_specs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tech_specs_sessionId_idx" ON "tech_specs"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "tech_specs" ADD CONSTRAINT "tech_specs_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_sessions"("sessionId") ON DELETE CASCADE ON UPDATE CASCADE;
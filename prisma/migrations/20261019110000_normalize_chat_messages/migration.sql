@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "chat_messages" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_messages_sessionId_position_key" ON "chat_messages"("sessionId", "position");
+
+-- CreateIndex
+CREATE INDEX "chat_messages_sessionId_role_idx" ON "chat_messages"("sessionId", "role");
+
+-- AddForeignKey
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_sessions"("sessionId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+-- Copy each element of chat_sessions.messages into its own row, keeping array order.
+-- Message timestamps that are not ISO dates are dropped rather than failing the migration.
+INSERT INTO "chat_messages" ("id", "sessionId", "position", "role", "content", "timestamp", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    s."sessionId",
+    (m.ordinality - 1)::integer,
+    COALESCE(m.value->>'role', 'user'),
+    COALESCE(m.value->>'content', ''),
+    CASE
+        WHEN m.value->>'timestamp' ~ '^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}(:?\d{2})?)?$'
+        THEN ((m.value->>'timestamp')::timestamptz AT TIME ZONE 'UTC')
+    END,
+    s."createdAt"
+FROM "chat_sessions" s
+CROSS JOIN LATERAL jsonb_array_elements(s."messages") WITH ORDINALITY AS m(value, ordinality)
+WHERE jsonb_typeof(s."messages") = 'array';
+
+-- AlterTable
+ALTER TABLE "chat_sessions" DROP COLUMN "messages";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
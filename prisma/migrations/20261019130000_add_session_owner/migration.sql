@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "ownerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_ownerId_timestamp_idx" ON "chat_sessions"("ownerId", "timestamp");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chat_messages" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english'::regconfig, "content")) STORED;
+
+-- CreateIndex
+CREATE INDEX "chat_messages_searchVector_idx" ON "chat_messages" USING GIN ("searchVector");
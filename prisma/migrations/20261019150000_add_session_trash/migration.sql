@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_deletedAt_idx" ON "chat_sessions"("deletedAt");
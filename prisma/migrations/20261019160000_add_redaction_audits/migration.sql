@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "redaction_audits" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "messageIndex" INTEGER NOT NULL,
+    "detector" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "redaction_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "redaction_audits_sessionId_createdAt_idx" ON "redaction_audits"("sessionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "redaction_audits" ADD CONSTRAINT "redaction_audits_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_sessions"("sessionId") ON DELETE CASCADE ON UPDATE CASCADE;
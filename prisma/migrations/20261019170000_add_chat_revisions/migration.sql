@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "chat_revisions" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "baseVersion" INTEGER,
+    "messages" JSONB NOT NULL,
+    "messageCount" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_revisions_sessionId_version_key" ON "chat_revisions"("sessionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "chat_revisions" ADD CONSTRAINT "chat_revisions_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_sessions"("sessionId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+-- Earlier versions were never kept; record each session's current state as its first revision.
+INSERT INTO "chat_revisions" ("id", "sessionId", "version", "messages", "messageCount", "timestamp", "metadata", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    s."sessionId",
+    s."version",
+    COALESCE(m.messages, '[]'::jsonb),
+    COALESCE(m.count, 0),
+    s."timestamp",
+    s."metadata",
+    s."updatedAt"
+FROM "chat_sessions" s
+LEFT JOIN LATERAL (
+    SELECT
+        jsonb_agg(
+            jsonb_build_object('role', cm."role", 'content', cm."content")
+            || CASE
+                WHEN cm."timestamp" IS NULL THEN '{}'::jsonb
+                ELSE jsonb_build_object('timestamp', to_char(cm."timestamp", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))
+            END
+            ORDER BY cm."position"
+        ) AS messages,
+        count(*)::integer AS count
+    FROM "chat_messages" cm
+    WHERE cm."sessionId" = s."sessionId"
+) m ON TRUE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "parentSessionId" TEXT,
+ADD COLUMN     "forkPoint" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_parentSessionId_idx" ON "chat_sessions"("parentSessionId");
+
+-- AddForeignKey
+ALTER TABLE "chat_sessions" ADD CONSTRAINT "chat_sessions_parentSessionId_fkey" FOREIGN KEY ("parentSessionId") REFERENCES "chat_sessions"("sessionId") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "title" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_tags_idx" ON "chat_sessions" USING GIN ("tags");
+
+-- Title existing sessions from their first user message, as the API does for new ones
+UPDATE "chat_sessions" s
+SET "title" = CASE
+  WHEN char_length(first."content") > 80 THEN rtrim(left(first."content", 79)) || '…'
+  ELSE first."content"
+END
+FROM (
+  SELECT DISTINCT ON ("sessionId")
+    "sessionId",
+    btrim(regexp_replace("content", '\s+', ' ', 'g')) AS "content"
+  FROM "chat_messages"
+  WHERE "role" = 'user'
+  ORDER BY "sessionId", "position"
+) first
+WHERE first."sessionId" = s."sessionId"
+  AND first."content" <> '';
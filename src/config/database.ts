@@ -1,5 +1,7 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import logger from './logger.js';
+import { dbQueryDuration } from './metrics.js';
+import { UnavailableError } from '../errors/index.js';
 
 /**
  * Database configuration for Tech Spec Generator API
@@ -9,9 +11,20 @@ import logger from './logger.js';
  * - Production (GCP): Cloud SQL connection with Workload Identity
  */
 
-// Initialize Prisma Client
+// Initialize Prisma Client, timing every query (including raw ones) for /metrics
 const prisma = new PrismaClient({
   log: process.env.NODE_ENV === 'development' ? ['query', 'info', 'warn', 'error'] : ['error'],
+}).$extends({
+  query: {
+    async $allOperations({ model, operation, args, query }) {
+      const end = dbQueryDuration.startTimer({ model: model ?? 'raw', operation });
+      try {
+        return await query(args);
+      } finally {
+        end();
+      }
+    },
+  },
 });
 
 /**
@@ -41,6 +54,34 @@ export async function disconnectDatabase(): Promise<void> {
   }
 }
 
+/**
+ * Count connections to the application database by state (active, idle, ...).
+ * Includes connections from other clients of the same database.
+ */
+export async function getConnectionCounts(): Promise<Array<{ state: string; connections: number }>> {
+  return prisma.$queryRaw<Array<{ state: string; connections: number }>>`
+    SELECT COALESCE("state", 'unknown') AS "state", count(*)::int AS "connections"
+    FROM pg_stat_activity
+    WHERE "datname" = current_database()
+    GROUP BY 1
+  `;
+}
+
+// Prisma codes for an unreachable server, timeouts, dropped connections and an exhausted pool
+const UNAVAILABLE_CODES = new Set(['P1001', 'P1002', 'P1008', 'P1017', 'P2024']);
+
+/**
+ * Error to throw for a failed database call: an UnavailableError (503) when
+ * the database could not be reached, so outages are not reported as bugs
+ * or as missing data; a plain Error (500) otherwise.
+ */
+export function databaseError(message: string, error: unknown): Error {
+  const unavailable =
+    error instanceof Prisma.PrismaClientInitializationError ||
+    (error instanceof Prisma.PrismaClientKnownRequestError && UNAVAILABLE_CODES.has(error.code));
+  return unavailable ? new UnavailableError(message) : new Error(message);
+}
+
 /**
  * Get database connection info (for debugging)
  */
@@ -0,0 +1,14 @@
+/**
+ * Legacy session owner
+ *
+ * Sessions saved before authentication was added have no owner, so no
+ * principal can read or write them. Setting LEGACY_OWNER_ID to a principal
+ * ID hands them to that principal: they are claimed at startup.
+ *
+ * Read lazily so values loaded by dotenv at startup are picked up.
+ */
+
+export function getLegacyOwnerId(): string | null {
+  const value = process.env.LEGACY_OWNER_ID?.trim();
+  return value ? value : null;
+}
@@ -0,0 +1,75 @@
+import type { RequestLimits } from '../types/index.js';
+import logger from './logger.js';
+
+/**
+ * Request and session size limits
+ *
+ * - MAX_BODY_SIZE: largest JSON request body, e.g. 2mb or 500kb (default 2mb);
+ *   also the longest line of a JSONL import
+ * - MAX_IMPORT_SIZE: largest JSONL import upload (default 50mb)
+ * - MAX_MESSAGES_PER_SESSION: messages a session can hold (default 1000)
+ * - MAX_MESSAGE_CHARS: characters in one message (default 50000)
+ * - MAX_SESSION_CHARS: characters across all messages of a session (default 500000)
+ *
+ * Read lazily so values loaded by dotenv at startup are picked up.
+ */
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+const DEFAULT_BODY_BYTES = 2 * BYTE_UNITS.mb;
+const DEFAULT_IMPORT_BYTES = 50 * BYTE_UNITS.mb;
+
+/**
+ * Parse a size such as 2mb, 500kb or 1048576 into bytes, or null if invalid
+ */
+export function parseByteSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const bytes = Math.floor(Number(match[1]) * BYTE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+  return bytes > 0 ? bytes : null;
+}
+
+function readPositiveInteger(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    logger.warn({ context: { name, value: raw, fallback } }, 'Invalid limit setting, using default');
+    return fallback;
+  }
+  return value;
+}
+
+function readByteSize(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const bytes = parseByteSize(raw);
+  if (bytes === null) {
+    logger.warn({ context: { name, value: raw, fallback } }, 'Invalid limit setting, using default');
+    return fallback;
+  }
+  return bytes;
+}
+
+export function getLimits(): RequestLimits {
+  return {
+    maxBodyBytes: readByteSize('MAX_BODY_SIZE', DEFAULT_BODY_BYTES),
+    maxImportBytes: readByteSize('MAX_IMPORT_SIZE', DEFAULT_IMPORT_BYTES),
+    maxMessagesPerSession: readPositiveInteger('MAX_MESSAGES_PER_SESSION', 1000),
+    maxMessageChars: readPositiveInteger('MAX_MESSAGE_CHARS', 50_000),
+    maxSessionChars: readPositiveInteger('MAX_SESSION_CHARS', 500_000),
+  };
+}
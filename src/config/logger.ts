@@ -1,4 +1,5 @@
 import { setupLogging } from '@asp-utilities/tooling-node-logger';
+import { getRequestId } from './request-context.js';
 
 // Set service name
 process.env.SERVICE_NAME = process.env.SERVICE_NAME || 'tech-spec-generator-api';
@@ -7,7 +8,7 @@ process.env.SERVICE_NAME = process.env.SERVICE_NAME || 'tech-spec-generator-api'
 const logLevel = process.env.LOG_LEVEL || (process.env.NODE_ENV === 'production' ? 'info' : 'debug');
 
 // Initialize logger with configuration
-const logger = setupLogging({
+const baseLogger = setupLogging({
   level: logLevel,
   serviceName: process.env.SERVICE_NAME,
   base: {
@@ -16,5 +17,35 @@ const logger = setupLogging({
   },
 });
 
+const LEVELS = new Set(['trace', 'debug', 'info', 'warn', 'error', 'fatal']);
+
+/**
+ * Adds the current request ID to every log line written while handling a
+ * request, so callers never pass it themselves. Lines logged outside a
+ * request (startup, scheduled jobs) are unchanged.
+ */
+const logger = new Proxy(baseLogger, {
+  get(target, property, receiver) {
+    const value = Reflect.get(target, property, receiver);
+    if (typeof property !== 'string' || !LEVELS.has(property) || typeof value !== 'function') {
+      return value;
+    }
+
+    return (first?: unknown, ...rest: unknown[]) => {
+      const requestId = getRequestId();
+      if (!requestId) {
+        return value.call(target, first, ...rest);
+      }
+      if (first instanceof Error) {
+        return value.call(target, { requestId, err: first }, ...rest);
+      }
+      if (first !== null && typeof first === 'object') {
+        return value.call(target, { requestId, ...first }, ...rest);
+      }
+      return value.call(target, { requestId }, first, ...rest);
+    };
+  },
+});
+
 export default logger;
 
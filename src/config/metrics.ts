@@ -0,0 +1,71 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics
+ *
+ * Metric names and label sets are part of the service's monitoring contract:
+ * dashboards and alerts depend on them, so rename or relabel only with care.
+ *
+ * - METRICS_TOKEN: when set, GET /metrics requires `Authorization: Bearer <token>`
+ *
+ * Read lazily so values loaded by dotenv at startup are picked up.
+ */
+
+export const metricsRegistry = new Registry();
+
+// process_* and nodejs_* metrics: CPU, memory, event loop lag, GC, handles
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestsTotal = new Counter({
+  name: 'techspec_http_requests_total',
+  help: 'HTTP requests by method, route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'techspec_http_request_duration_seconds',
+  help: 'HTTP request latency by method, route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+export const dbQueryDuration = new Histogram({
+  name: 'techspec_db_query_duration_seconds',
+  help: 'Prisma query duration by model and operation; raw queries have model "raw"',
+  labelNames: ['model', 'operation'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [metricsRegistry],
+});
+
+export const dbConnections = new Gauge({
+  name: 'techspec_db_connections',
+  help: 'Connections to the application database by state, sampled from pg_stat_activity on scrape',
+  labelNames: ['state'] as const,
+  registers: [metricsRegistry],
+});
+
+export const sessionOperationsTotal = new Counter({
+  name: 'techspec_session_operations_total',
+  help: 'Chat session storage operations by operation and result',
+  labelNames: ['operation', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export type SessionOperation = 'save' | 'append' | 'import' | 'update' | 'read';
+
+/**
+ * ok: completed; not_found: missing, trashed or owned by someone else;
+ * rejected: failed an If-Match or size limit check, or an import record was
+ * not written; error: unexpected failure. Imports count one per session.
+ */
+export type SessionOperationResult = 'ok' | 'not_found' | 'rejected' | 'error';
+
+export function countSessionOperation(operation: SessionOperation, result: SessionOperationResult, sessions = 1): void {
+  sessionOperationsTotal.inc({ operation, result }, sessions);
+}
+
+export function getMetricsToken(): string | undefined {
+  return process.env.METRICS_TOKEN || undefined;
+}
@@ -0,0 +1,45 @@
+import logger from './logger.js';
+
+/**
+ * Rate limit configuration
+ *
+ * - RATE_LIMIT_ENABLED: set to false to turn every limiter off (default true)
+ * - RATE_LIMIT_<NAME>: override one limiter as `<limit>/<windowSeconds>`,
+ *   e.g. RATE_LIMIT_SAVE=30/60. Names are the ones passed to rateLimit() in
+ *   src/routes/index.ts.
+ *
+ * Read lazily so values loaded by dotenv at startup are picked up.
+ */
+
+export interface RateLimitRule {
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+}
+
+const RULE_PATTERN = /^(\d+)\s*\/\s*(\d+)$/;
+
+export function isRateLimitEnabled(): boolean {
+  return process.env.RATE_LIMIT_ENABLED !== 'false';
+}
+
+/**
+ * The rule for a named limiter: the RATE_LIMIT_<NAME> override if it is set
+ * and valid, otherwise the fallback given by the route
+ */
+export function getRateLimitRule(name: string, fallback: RateLimitRule): RateLimitRule {
+  const variable = `RATE_LIMIT_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+  const raw = process.env[variable];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const match = RULE_PATTERN.exec(raw.trim());
+  const limit = match ? Number(match[1]) : 0;
+  const windowSeconds = match ? Number(match[2]) : 0;
+  if (limit <= 0 || windowSeconds <= 0) {
+    logger.warn({ context: { name: variable, value: raw, fallback } }, 'Invalid rate limit setting, using default');
+    return fallback;
+  }
+  return { limit, windowMs: windowSeconds * 1000 };
+}
@@ -0,0 +1,49 @@
+import type { RedactionMode } from '../types/index.js';
+import logger from './logger.js';
+
+/**
+ * Redaction configuration
+ *
+ * - REDACTION_ENABLED: set to false to store messages verbatim (default true)
+ * - REDACTION_MODE: mask replaces matches with [REDACTED:<type>], hash replaces
+ *   them with a keyed hash so equal values stay correlatable (default mask)
+ * - REDACTION_DETECTORS: comma-separated detector types to run (default all)
+ * - REDACTION_HASH_KEY: HMAC key for hash mode; without it short values such
+ *   as phone numbers could be recovered by brute force
+ *
+ * Read lazily so values loaded by dotenv at startup are picked up.
+ */
+
+export interface RedactionConfig {
+  enabled: boolean;
+  mode: RedactionMode;
+  /** Detector types to run; null runs every registered detector */
+  detectors: string[] | null;
+  hashKey: string;
+}
+
+const MODES: RedactionMode[] = ['mask', 'hash'];
+
+export function getRedactionConfig(): RedactionConfig {
+  const mode = (process.env.REDACTION_MODE || 'mask') as RedactionMode;
+  if (!MODES.includes(mode)) {
+    throw new Error(`Invalid REDACTION_MODE: ${mode} (expected ${MODES.join(' or ')})`);
+  }
+
+  const hashKey = process.env.REDACTION_HASH_KEY ?? '';
+  if (mode === 'hash' && !hashKey) {
+    logger.warn('REDACTION_MODE is hash but REDACTION_HASH_KEY is not set; hashes are unkeyed');
+  }
+
+  const detectors = process.env.REDACTION_DETECTORS
+    ?.split(',')
+    .map(type => type.trim())
+    .filter(type => type.length > 0);
+
+  return {
+    enabled: process.env.REDACTION_ENABLED !== 'false',
+    mode,
+    detectors: detectors?.length ? detectors : null,
+    hashKey,
+  };
+}
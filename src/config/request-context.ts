@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request context
+ *
+ * Set by the requestContext middleware for the lifetime of each request and
+ * available to any code it calls, including across awaits, without threading
+ * it through function arguments. The logger reads it to tag every line with
+ * the request ID.
+ */
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run fn, and everything it schedules, with the given context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * ID of the request being handled, or undefined outside a request (startup, jobs)
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
@@ -0,0 +1,53 @@
+import type { RetentionPolicy } from '../types/index.js';
+import { schemas } from './schemas.js';
+import { validateSchema } from '../middleware/validation.js';
+import type { ValidationErrorDetail } from '../middleware/validation.js';
+
+/**
+ * Data retention configuration
+ *
+ * The policy is read from the RETENTION_POLICY environment variable as JSON
+ * (see the RetentionPolicy schema), e.g.
+ *
+ *   {"maxAgeDays":365,"rules":[{"metadata":{"clientVersion":"beta"},"maxAgeDays":30}]}
+ *
+ * Retention is off when the variable is unset. An invalid policy throws so the
+ * server refuses to start rather than silently keeping data.
+ */
+
+const DEFAULTS = {
+  enabled: true,
+  field: 'updatedAt',
+  rules: [],
+  action: 'archive',
+  intervalMinutes: 24 * 60,
+  batchSize: 500,
+} satisfies Partial<RetentionPolicy>;
+
+/**
+ * Parse and validate a policy, filling in defaults
+ */
+export function parseRetentionPolicy(value: string): RetentionPolicy {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('RETENTION_POLICY is not valid JSON');
+  }
+
+  const errors: ValidationErrorDetail[] = [];
+  validateSchema(schemas.RetentionPolicy, parsed, 'RETENTION_POLICY', errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid RETENTION_POLICY: ${errors.map(error => `${error.path} ${error.message}`).join('; ')}`);
+  }
+
+  return { ...DEFAULTS, ...(parsed as Partial<RetentionPolicy>) };
+}
+
+/**
+ * Read the retention policy, or null when none is configured
+ */
+export function getRetentionPolicy(): RetentionPolicy | null {
+  const value = process.env.RETENTION_POLICY;
+  return value ? parseRetentionPolicy(value) : null;
+}
@@ -0,0 +1,38 @@
+import logger from './logger.js';
+import { MAX_INTERVAL_MS } from '../jobs/scheduler.js';
+
+/**
+ * Revision history configuration
+ *
+ * Each session keeps its newest REVISION_LIMIT revisions (default 100); the
+ * prune job drops older ones every REVISION_PRUNE_INTERVAL_MINUTES (default
+ * 60, at most 35791, the longest interval a timer supports).
+ *
+ * Read lazily so values loaded by dotenv at startup are picked up.
+ */
+
+export interface RevisionConfig {
+  limit: number;
+  pruneIntervalMinutes: number;
+}
+
+function readPositiveInteger(name: string, fallback: number, max = Infinity): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0 || value > max) {
+    logger.warn({ context: { name, value: raw, fallback } }, 'Invalid revision setting, using default');
+    return fallback;
+  }
+  return value;
+}
+
+export function getRevisionConfig(): RevisionConfig {
+  return {
+    limit: readPositiveInteger('REVISION_LIMIT', 100),
+    pruneIntervalMinutes: readPositiveInteger('REVISION_PRUNE_INTERVAL_MINUTES', 60, Math.floor(MAX_INTERVAL_MS / 60_000)),
+  };
+}
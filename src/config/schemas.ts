@@ -0,0 +1,1391 @@
+import { ERROR_CODES } from '../errors/index.js';
+
+/**
+ * JSON schemas shared by the OpenAPI spec (components.schemas) and the
+ * request validation middleware, so the docs and runtime checks cannot drift.
+ */
+
+/**
+ * Subset of OpenAPI 3.0 schema keywords understood by the validator, plus
+ * propertyNames from JSON Schema (OpenAPI 3.0 tools ignore it).
+ * Documentation-only keywords (description, example, ...) are allowed and ignored.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  $ref?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  propertyNames?: JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  enum?: unknown[];
+  format?: string;
+  nullable?: boolean;
+  allOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+const SESSION_ID_MAX_LENGTH = 200;
+
+const sessionTitle: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: 200,
+  pattern: '\\S',
+  description: 'Session title. Generated from the first user message when not set.',
+  example: 'Design a rate limiter for the public API',
+};
+
+// Commas separate tags in the list filter, so they cannot appear in a tag
+const sessionTags: JsonSchema = {
+  type: 'array',
+  maxItems: 20,
+  items: {
+    type: 'string',
+    minLength: 1,
+    maxLength: 50,
+    pattern: '^[^,]*[^,\\s][^,]*$',
+  },
+  description: 'Tags, stored trimmed and lowercased without duplicates',
+  example: ['billing', 'api'],
+};
+
+// Free-form string values; userAgent and clientVersion are the ones the analytics and exports read
+const sessionMetadata: JsonSchema = {
+  type: 'object',
+  maxProperties: 20,
+  propertyNames: {
+    pattern: '^[A-Za-z0-9_.-]{1,64}$',
+  },
+  properties: {
+    userAgent: {
+      type: 'string',
+      maxLength: 500,
+    },
+    clientVersion: {
+      type: 'string',
+      maxLength: 500,
+    },
+  },
+  additionalProperties: {
+    type: 'string',
+    maxLength: 500,
+  },
+  description: 'Optional metadata about the session: up to 20 string values of at most 500 characters, keyed by up to 64 letters, digits, `_`, `.` or `-`',
+  example: { userAgent: 'Mozilla/5.0', clientVersion: '1.4.0', team: 'billing' },
+};
+
+/**
+ * Named schemas published as components.schemas in the OpenAPI spec
+ */
+export const schemas: Record<string, JsonSchema> = {
+  Message: {
+    type: 'object',
+    required: ['role', 'content'],
+    additionalProperties: false,
+    properties: {
+      role: {
+        type: 'string',
+        enum: ['user', 'model'],
+        description: 'The role of the message sender',
+      },
+      content: {
+        type: 'string',
+        description: 'The content of the message',
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Optional timestamp of the message',
+      },
+    },
+  },
+  ChatSession: {
+    type: 'object',
+    required: ['sessionId', 'messages', 'timestamp'],
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Unique identifier for the chat session',
+      },
+      messages: {
+        type: 'array',
+        items: {
+          $ref: '#/components/schemas/Message',
+        },
+        description: 'Array of messages in the chat session',
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Timestamp when the session was created',
+      },
+      title: { ...sessionTitle, nullable: true },
+      tags: sessionTags,
+      metadata: sessionMetadata,
+      version: {
+        type: 'integer',
+        description: 'Session version, incremented on every write. Also returned as the ETag header.',
+        example: 3,
+      },
+    },
+  },
+  ChatSessionSummary: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Unique identifier for the chat session',
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Timestamp when the session was created',
+      },
+      messageCount: {
+        type: 'number',
+        description: 'Number of messages in the session',
+      },
+      title: { ...sessionTitle, nullable: true },
+      tags: sessionTags,
+      preview: {
+        type: 'string',
+        nullable: true,
+        description: 'First user message, truncated to 120 characters',
+      },
+      lastActivity: {
+        type: 'string',
+        format: 'date-time',
+        description: 'When the session was last updated',
+      },
+      metadata: sessionMetadata,
+    },
+  },
+  ChatSearchResult: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+        description: 'Unique identifier for the chat session',
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Timestamp when the session was created',
+      },
+      score: {
+        type: 'number',
+        description: 'Relevance of the best matching message',
+      },
+      matchedIndices: {
+        type: 'array',
+        items: { type: 'integer' },
+        description: 'Indices of every matching message, in transcript order',
+        example: [0, 4],
+      },
+      snippets: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: {
+              type: 'integer',
+              description: 'Index of the message the snippet comes from',
+            },
+            text: {
+              type: 'string',
+              description: 'Excerpt with matched terms wrapped in <mark>',
+              example: 'We need a <mark>payment</mark> <mark>webhook</mark> that retries',
+            },
+          },
+        },
+        description: 'Highlighted excerpts from up to 3 of the best matching messages',
+      },
+    },
+  },
+  TrashedSessionSummary: {
+    allOf: [
+      { $ref: '#/components/schemas/ChatSessionSummary' },
+      {
+        type: 'object',
+        properties: {
+          deletedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the session was moved to the trash',
+          },
+        },
+      },
+    ],
+  },
+  RedactionAuditEntry: {
+    type: 'object',
+    description: 'Values redacted from one message. The original values are never stored.',
+    properties: {
+      version: {
+        type: 'integer',
+        description: 'Session version the redacted message was written with',
+        example: 2,
+      },
+      messageIndex: {
+        type: 'integer',
+        example: 0,
+      },
+      detector: {
+        type: 'string',
+        description: 'Detector that matched',
+        example: 'email',
+      },
+      mode: {
+        type: 'string',
+        enum: ['mask', 'hash'],
+      },
+      count: {
+        type: 'integer',
+        description: 'Number of values replaced',
+        example: 1,
+      },
+      createdAt: {
+        type: 'string',
+        format: 'date-time',
+      },
+    },
+  },
+  ChatRevisionSummary: {
+    type: 'object',
+    properties: {
+      version: {
+        type: 'integer',
+        description: 'Session version the revision was saved as',
+        example: 3,
+      },
+      messageCount: {
+        type: 'integer',
+        example: 4,
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Session timestamp at this revision',
+      },
+      createdAt: {
+        type: 'string',
+        format: 'date-time',
+        description: 'When the revision was saved',
+      },
+    },
+  },
+  ChatRevision: {
+    allOf: [
+      { $ref: '#/components/schemas/ChatRevisionSummary' },
+      {
+        type: 'object',
+        properties: {
+          sessionId: {
+            type: 'string',
+          },
+          messages: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/Message',
+            },
+            description: 'Transcript as saved in this revision',
+          },
+          metadata: {
+            type: 'object',
+            description: 'Session metadata at this revision',
+          },
+        },
+      },
+    ],
+  },
+  MessageChange: {
+    type: 'object',
+    required: ['type'],
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['added', 'removed', 'edited'],
+      },
+      fromIndex: {
+        type: 'integer',
+        description: 'Position in the older revision (removed and edited)',
+      },
+      toIndex: {
+        type: 'integer',
+        description: 'Position in the newer revision (added and edited)',
+      },
+      message: {
+        $ref: '#/components/schemas/Message',
+        description: 'The added or removed message',
+      },
+      before: {
+        $ref: '#/components/schemas/Message',
+        description: 'Edited message in the older revision',
+      },
+      after: {
+        $ref: '#/components/schemas/Message',
+        description: 'Edited message in the newer revision',
+      },
+    },
+  },
+  RevisionDiff: {
+    type: 'object',
+    properties: {
+      sessionId: {
+        type: 'string',
+      },
+      from: {
+        type: 'integer',
+        example: 1,
+      },
+      to: {
+        type: 'integer',
+        example: 3,
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          added: { type: 'integer' },
+          removed: { type: 'integer' },
+          edited: { type: 'integer' },
+          unchanged: { type: 'integer' },
+        },
+      },
+      changes: {
+        type: 'array',
+        items: {
+          $ref: '#/components/schemas/MessageChange',
+        },
+        description: 'Changes in transcript order. Messages are compared by role and content.',
+      },
+    },
+  },
+  SaveChatRequest: {
+    type: 'object',
+    required: ['messages'],
+    additionalProperties: false,
+    properties: {
+      sessionId: {
+        type: 'string',
+        minLength: 1,
+        maxLength: SESSION_ID_MAX_LENGTH,
+        description: 'Optional session ID. If not provided, server will generate one.',
+      },
+      messages: {
+        type: 'array',
+        items: {
+          $ref: '#/components/schemas/Message',
+        },
+        minItems: 1,
+        description: 'Array of messages (must not be empty)',
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Optional timestamp. Defaults to current server time if not provided.',
+      },
+      title: {
+        ...sessionTitle,
+        description: 'Optional title. Kept from the previous save when omitted; new sessions get one generated from the first user message.',
+      },
+      tags: {
+        ...sessionTags,
+        description: 'Replaces the session tags. Kept from the previous save when omitted.',
+      },
+      metadata: sessionMetadata,
+    },
+  },
+  ImportSessionRecord: {
+    type: 'object',
+    required: ['sessionId', 'messages'],
+    additionalProperties: false,
+    description: 'One line of a native JSONL import: a ChatSession as returned by GET /api/chat/{sessionId}',
+    properties: {
+      sessionId: {
+        type: 'string',
+        minLength: 1,
+        maxLength: SESSION_ID_MAX_LENGTH,
+      },
+      messages: {
+        type: 'array',
+        items: {
+          $ref: '#/components/schemas/Message',
+        },
+        minItems: 1,
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Defaults to the import time',
+      },
+      title: { ...sessionTitle, nullable: true },
+      tags: sessionTags,
+      metadata: sessionMetadata,
+      version: {
+        type: 'integer',
+        description: 'Ignored; imported sessions get their own version',
+      },
+    },
+  },
+  ImportReport: {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+        example: true,
+      },
+      total: {
+        type: 'integer',
+        description: 'Number of non-empty lines read',
+      },
+      imported: {
+        type: 'integer',
+      },
+      skipped: {
+        type: 'integer',
+      },
+      failed: {
+        type: 'integer',
+      },
+      records: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            line: {
+              type: 'integer',
+              description: '1-based line number in the upload',
+            },
+            sessionId: {
+              type: 'string',
+            },
+            status: {
+              type: 'string',
+              enum: ['imported', 'skipped', 'failed'],
+            },
+            action: {
+              type: 'string',
+              enum: ['created', 'replaced'],
+            },
+            reason: {
+              type: 'string',
+              example: 'messages must contain at least 1 items',
+            },
+          },
+        },
+      },
+    },
+  },
+  AppendMessagesRequest: {
+    type: 'object',
+    required: ['messages'],
+    additionalProperties: false,
+    properties: {
+      messages: {
+        type: 'array',
+        items: {
+          $ref: '#/components/schemas/Message',
+        },
+        minItems: 1,
+        description: 'Messages to append, in order (must not be empty)',
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Optional session timestamp, only used when the session is created. Defaults to current server time.',
+      },
+    },
+  },
+  AppendMessagesResponse: {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+      },
+      sessionId: {
+        type: 'string',
+      },
+      created: {
+        type: 'boolean',
+        description: 'Whether the session was created by this append',
+      },
+      indices: {
+        type: 'array',
+        items: {
+          type: 'integer',
+        },
+        description: 'Zero-based positions of the appended messages in the transcript',
+        example: [4, 5],
+      },
+      messageCount: {
+        type: 'integer',
+        description: 'Total number of messages in the session after the append',
+        example: 6,
+      },
+      version: {
+        type: 'integer',
+        description: 'Session version after the append',
+      },
+    },
+  },
+  BulkDeleteRequest: {
+    type: 'object',
+    additionalProperties: false,
+    minProperties: 1,
+    properties: {
+      sessionIds: {
+        type: 'array',
+        items: {
+          type: 'string',
+          minLength: 1,
+          maxLength: SESSION_ID_MAX_LENGTH,
+        },
+        minItems: 1,
+        maxItems: 1000,
+        description: 'Session IDs to delete',
+      },
+      before: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Delete sessions with a timestamp before this date',
+      },
+    },
+    description: 'At least one of sessionIds or before is required',
+  },
+  SaveChatResponse: {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+        description: 'Whether the operation was successful',
+      },
+      sessionId: {
+        type: 'string',
+        description: 'The session ID (generated by server if not provided)',
+      },
+      version: {
+        type: 'integer',
+        description: 'Session version after the save',
+      },
+      message: {
+        type: 'string',
+        description: 'Success message',
+      },
+    },
+  },
+  UpdateSessionRequest: {
+    type: 'object',
+    additionalProperties: false,
+    minProperties: 1,
+    description: 'Fields to change; omitted fields are left as they are',
+    properties: {
+      title: {
+        ...sessionTitle,
+        nullable: true,
+        description: 'New title, or null to generate one from the first user message',
+      },
+      tags: {
+        ...sessionTags,
+        description: 'Replaces the session tags',
+      },
+      metadata: {
+        ...sessionMetadata,
+        description: 'Replaces the session metadata',
+      },
+    },
+  },
+  ForkSessionRequest: {
+    type: 'object',
+    required: ['messageIndex'],
+    additionalProperties: false,
+    properties: {
+      messageIndex: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Index of the last message to copy into the fork',
+        example: 3,
+      },
+    },
+  },
+  ForkSessionResponse: {
+    allOf: [
+      { $ref: '#/components/schemas/SaveChatResponse' },
+      {
+        type: 'object',
+        properties: {
+          parentSessionId: {
+            type: 'string',
+            description: 'The session that was forked',
+          },
+          forkPoint: {
+            type: 'integer',
+            description: 'Index of the last parent message copied into the fork',
+          },
+          messageCount: {
+            type: 'integer',
+          },
+        },
+      },
+    ],
+  },
+  SessionLineage: {
+    type: 'object',
+    properties: {
+      parent: {
+        type: 'object',
+        nullable: true,
+        description: 'The session this one was forked from; null if it is not a fork or the parent was purged',
+        properties: {
+          sessionId: {
+            type: 'string',
+          },
+          forkPoint: {
+            type: 'integer',
+          },
+        },
+      },
+      forks: {
+        type: 'array',
+        description: 'Sessions forked from this one, oldest first',
+        items: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+            },
+            forkPoint: {
+              type: 'integer',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+      },
+    },
+  },
+  TechSpec: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Unique identifier for the spec document',
+      },
+      sessionId: {
+        type: 'string',
+        description: 'The chat session the spec was generated from',
+      },
+      generator: {
+        type: 'string',
+        description: 'Name of the generator that built the document',
+        example: 'local',
+      },
+      overview: {
+        type: 'string',
+      },
+      goals: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      nonGoals: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      requirements: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      architecture: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      openQuestions: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      risks: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      createdAt: {
+        type: 'string',
+        format: 'date-time',
+      },
+    },
+  },
+  AnalyticsReport: {
+    type: 'object',
+    description: 'Usage statistics over the sessions in a date range. Sessions in the trash are not counted.',
+    properties: {
+      from: {
+        type: 'string',
+        format: 'date-time',
+        nullable: true,
+      },
+      to: {
+        type: 'string',
+        format: 'date-time',
+        nullable: true,
+      },
+      interval: {
+        type: 'string',
+        enum: ['day', 'week'],
+      },
+      sessions: {
+        type: 'object',
+        properties: {
+          total: {
+            type: 'integer',
+            example: 42,
+          },
+          perPeriod: {
+            type: 'array',
+            description: 'Sessions by timestamp per day or week (weeks start on Monday), including empty periods',
+            items: {
+              type: 'object',
+              properties: {
+                period: {
+                  type: 'string',
+                  format: 'date',
+                  example: '2024-01-01',
+                },
+                sessions: {
+                  type: 'integer',
+                  example: 3,
+                },
+              },
+            },
+          },
+        },
+      },
+      messagesPerSession: {
+        type: 'object',
+        properties: {
+          average: {
+            type: 'number',
+            example: 8.5,
+          },
+          p50: {
+            type: 'number',
+            example: 6,
+          },
+          p95: {
+            type: 'number',
+            example: 24.9,
+          },
+        },
+      },
+      messages: {
+        type: 'object',
+        properties: {
+          total: {
+            type: 'integer',
+          },
+          user: {
+            type: 'integer',
+          },
+          model: {
+            type: 'integer',
+          },
+          userToModelRatio: {
+            type: 'number',
+            nullable: true,
+            description: 'User messages per model message; null when there are no model messages',
+            example: 1.02,
+          },
+        },
+      },
+      averageContentLength: {
+        type: 'object',
+        description: 'Average message length in characters',
+        properties: {
+          all: {
+            type: 'number',
+          },
+          user: {
+            type: 'number',
+          },
+          model: {
+            type: 'number',
+          },
+        },
+      },
+      clientVersions: {
+        type: 'array',
+        description: 'Client versions reported in session metadata, most sessions first',
+        items: {
+          type: 'object',
+          properties: {
+            clientVersion: {
+              type: 'string',
+              example: '1.4.0',
+            },
+            sessions: {
+              type: 'integer',
+            },
+            lastActivity: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Last update of a session using this version',
+            },
+          },
+        },
+      },
+    },
+  },
+  ErrorResponse: {
+    type: 'object',
+    required: ['success', 'error', 'code', 'message'],
+    properties: {
+      success: {
+        type: 'boolean',
+        example: false,
+      },
+      error: {
+        type: 'string',
+        description: 'Short human-readable summary',
+        example: 'Not found',
+      },
+      code: {
+        type: 'string',
+        enum: [...ERROR_CODES],
+        description: [
+          'Stable machine-readable error code; branch on this rather than on error or message.',
+          'Codes are never renamed or removed, but new ones may be added.',
+          '',
+          '- VALIDATION_FAILED (400): invalid body, query, path or header, or a size limit exceeded',
+          '- UNAUTHORIZED (401): missing or invalid credentials',
+          '- FORBIDDEN (403): the principal lacks the required role',
+          '- NOT_FOUND (404): the resource does not exist or belongs to another user',
+          '- VERSION_CONFLICT (412): If-Match did not match the stored version',
+          '- PAYLOAD_TOO_LARGE (413): request body over maxBodyBytes, or import over maxImportBytes',
+          '- UNSUPPORTED_MEDIA_TYPE (415): request body in a format the endpoint does not accept',
+          '- RATE_LIMITED (429): rate limit exceeded',
+          '- INTERNAL_ERROR (500): unexpected server error',
+          '- SERVICE_UNAVAILABLE (503): the database could not be reached; retry later',
+        ].join('\n'),
+        example: 'NOT_FOUND',
+      },
+      message: {
+        type: 'string',
+        description: 'Detailed error message',
+      },
+      details: {
+        type: 'array',
+        items: {
+          $ref: '#/components/schemas/ValidationErrorDetail',
+        },
+        description: 'Per-field problems, only present on validation errors',
+      },
+      requestId: {
+        type: 'string',
+        description: 'X-Request-Id of the request',
+      },
+    },
+  },
+  ValidationErrorDetail: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Location of the invalid value',
+        example: 'body.messages[0].role',
+      },
+      message: {
+        type: 'string',
+        description: 'What is wrong with the value',
+        example: 'must be one of: user, model',
+      },
+    },
+  },
+  VersionConflictResponse: {
+    allOf: [
+      { $ref: '#/components/schemas/ErrorResponse' },
+      {
+        type: 'object',
+        properties: {
+          data: {
+            allOf: [{ $ref: '#/components/schemas/ChatSession' }],
+            nullable: true,
+            description: 'Current server state of the session, or null if it does not exist',
+          },
+        },
+      },
+    ],
+  },
+  ImportAbortedResponse: {
+    allOf: [
+      { $ref: '#/components/schemas/ErrorResponse' },
+      {
+        type: 'object',
+        properties: {
+          data: {
+            allOf: [{ $ref: '#/components/schemas/ImportReport' }],
+            description: 'Report of the records read before the import stopped; those marked imported were written',
+          },
+        },
+      },
+    ],
+  },
+  RetentionRule: {
+    type: 'object',
+    required: ['maxAgeDays', 'metadata'],
+    additionalProperties: false,
+    properties: {
+      metadata: {
+        ...sessionMetadata,
+        minProperties: 1,
+        description: 'Applies to sessions whose metadata has all of these values',
+        example: { clientVersion: 'beta' },
+      },
+      maxAgeDays: {
+        type: 'number',
+        minimum: 0,
+      },
+      field: {
+        type: 'string',
+        enum: ['timestamp', 'updatedAt'],
+        description: 'Defaults to the policy field',
+      },
+    },
+  },
+  RetentionPolicy: {
+    type: 'object',
+    additionalProperties: false,
+    description: 'Read from the RETENTION_POLICY environment variable as JSON',
+    properties: {
+      enabled: {
+        type: 'boolean',
+        description: 'Run the retention job on a schedule (default true)',
+      },
+      field: {
+        type: 'string',
+        enum: ['timestamp', 'updatedAt'],
+        description: 'Date a session age is measured from (default updatedAt)',
+      },
+      maxAgeDays: {
+        type: 'number',
+        minimum: 0,
+        description: 'Maximum age of sessions not matched by a rule; omit to keep them',
+      },
+      rules: {
+        type: 'array',
+        items: {
+          $ref: '#/components/schemas/RetentionRule',
+        },
+        description: 'Per-metadata overrides; the first matching rule wins',
+      },
+      action: {
+        type: 'string',
+        enum: ['delete', 'archive'],
+        description: 'delete removes sessions permanently, archive moves them to the trash (default archive)',
+      },
+      intervalMinutes: {
+        type: 'number',
+        minimum: 1,
+        // Longest interval a timer supports (2^31 - 1 ms)
+        maximum: 35791,
+        description: 'How often the job runs, in minutes (default 1440)',
+      },
+      batchSize: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 10000,
+      },
+    },
+  },
+  RetentionDryRunResponse: {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+        example: true,
+      },
+      data: {
+        type: 'object',
+        properties: {
+          enabled: {
+            type: 'boolean',
+          },
+          action: {
+            type: 'string',
+            enum: ['delete', 'archive'],
+          },
+          evaluatedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          total: {
+            type: 'integer',
+            description: 'Sessions the next run would process',
+          },
+          rules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                field: {
+                  type: 'string',
+                  enum: ['timestamp', 'updatedAt'],
+                },
+                maxAgeDays: {
+                  type: 'number',
+                },
+                metadata: {
+                  type: 'object',
+                  nullable: true,
+                },
+                cutoff: {
+                  type: 'string',
+                  format: 'date-time',
+                },
+                matched: {
+                  type: 'integer',
+                },
+              },
+            },
+          },
+          sample: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Some of the session IDs that would be processed',
+          },
+        },
+      },
+    },
+  },
+  HealthResponse: {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+      },
+      status: {
+        type: 'string',
+        enum: ['healthy', 'degraded'],
+        description: 'Overall system health status',
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+      },
+      uptime: {
+        type: 'number',
+        description: 'Server uptime in seconds',
+      },
+      database: {
+        type: 'object',
+        properties: {
+          connected: {
+            type: 'boolean',
+            description: 'Database connection status',
+          },
+          latencyMs: {
+            type: 'number',
+            description: 'Round trip time of the database check',
+          },
+        },
+      },
+      environment: {
+        type: 'string',
+        description: 'Current environment (development/production)',
+      },
+      limits: {
+        $ref: '#/components/schemas/RequestLimits',
+      },
+    },
+  },
+  LivenessResponse: {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+        example: true,
+      },
+      status: {
+        type: 'string',
+        enum: ['alive'],
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+      },
+      uptime: {
+        type: 'number',
+        description: 'Server uptime in seconds',
+      },
+    },
+  },
+  DependencyCheck: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['up', 'down', 'skipped'],
+        description: 'down makes the instance not ready; skipped means the dependency is not used in this environment',
+      },
+      latencyMs: {
+        type: 'number',
+        description: 'Time the check took, in milliseconds',
+        example: 1.42,
+      },
+      message: {
+        type: 'string',
+        description: 'Why the check failed or was skipped',
+      },
+    },
+  },
+  MigrationCheck: {
+    allOf: [
+      { $ref: '#/components/schemas/DependencyCheck' },
+      {
+        type: 'object',
+        description: 'The counts are absent when the migrations table could not be read',
+        properties: {
+          applied: {
+            type: 'integer',
+            description: 'Migrations applied to the database',
+          },
+          pending: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Migrations shipped with the app but not applied',
+          },
+          failed: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Migrations that failed or are still running',
+          },
+        },
+      },
+    ],
+  },
+  ReadinessResponse: {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+        example: true,
+      },
+      status: {
+        type: 'string',
+        enum: ['ready', 'not_ready'],
+      },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+      },
+      checks: {
+        type: 'object',
+        properties: {
+          database: {
+            $ref: '#/components/schemas/DependencyCheck',
+          },
+          migrations: {
+            $ref: '#/components/schemas/MigrationCheck',
+          },
+          secretManager: {
+            $ref: '#/components/schemas/DependencyCheck',
+          },
+        },
+      },
+    },
+  },
+  RequestLimits: {
+    type: 'object',
+    description: 'Size limits enforced on incoming chat data',
+    properties: {
+      maxBodyBytes: {
+        type: 'integer',
+        description: 'Largest accepted JSON request body, and longest JSONL import line; larger ones get 413',
+        example: 2097152,
+      },
+      maxImportBytes: {
+        type: 'integer',
+        description: 'Largest accepted JSONL import upload; larger uploads get 413',
+        example: 52428800,
+      },
+      maxMessagesPerSession: {
+        type: 'integer',
+        example: 1000,
+      },
+      maxMessageChars: {
+        type: 'integer',
+        description: 'Characters allowed in one message',
+        example: 50000,
+      },
+      maxSessionChars: {
+        type: 'integer',
+        description: 'Characters allowed across all messages of a session',
+        example: 500000,
+      },
+    },
+  },
+};
+
+/**
+ * Schemas for query strings and path parameters.
+ * These are documented inline on each route, so they are not published as components.
+ */
+export const parameterSchemas: Record<string, JsonSchema> = {
+  SessionIdParams: {
+    type: 'object',
+    required: ['sessionId'],
+    properties: {
+      sessionId: {
+        type: 'string',
+        minLength: 1,
+        maxLength: SESSION_ID_MAX_LENGTH,
+      },
+    },
+  },
+  RevisionParams: {
+    type: 'object',
+    required: ['sessionId', 'rev'],
+    properties: {
+      sessionId: {
+        type: 'string',
+        minLength: 1,
+        maxLength: SESSION_ID_MAX_LENGTH,
+      },
+      rev: {
+        type: 'integer',
+        minimum: 1,
+      },
+    },
+  },
+  ListSessionsQuery: {
+    type: 'object',
+    properties: {
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 100,
+      },
+      cursor: {
+        type: 'string',
+        minLength: 1,
+      },
+      sortBy: {
+        type: 'string',
+        enum: ['timestamp', 'createdAt', 'updatedAt'],
+      },
+      order: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+      },
+      from: {
+        type: 'string',
+        format: 'date-time',
+      },
+      to: {
+        type: 'string',
+        format: 'date-time',
+      },
+      createdFrom: {
+        type: 'string',
+        format: 'date-time',
+      },
+      createdTo: {
+        type: 'string',
+        format: 'date-time',
+      },
+      tags: {
+        type: 'string',
+        minLength: 1,
+      },
+      view: {
+        type: 'string',
+        enum: ['full', 'summary'],
+      },
+    },
+  },
+  ExportSessionQuery: {
+    type: 'object',
+    properties: {
+      format: {
+        type: 'string',
+        enum: ['markdown', 'html', 'jsonl', 'txt'],
+      },
+    },
+  },
+  ImportSessionsQuery: {
+    type: 'object',
+    properties: {
+      format: {
+        type: 'string',
+        enum: ['auto', 'native', 'chatgpt', 'claude'],
+      },
+      onConflict: {
+        type: 'string',
+        enum: ['replace', 'skip'],
+      },
+    },
+  },
+  SearchSessionsQuery: {
+    type: 'object',
+    required: ['q'],
+    properties: {
+      q: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 200,
+        pattern: '\\S',
+      },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 50,
+      },
+    },
+  },
+  DiffRevisionsQuery: {
+    type: 'object',
+    required: ['from', 'to'],
+    properties: {
+      from: {
+        type: 'integer',
+        minimum: 1,
+      },
+      to: {
+        type: 'integer',
+        minimum: 1,
+      },
+    },
+  },
+  AnalyticsQuery: {
+    type: 'object',
+    properties: {
+      from: {
+        type: 'string',
+        format: 'date-time',
+      },
+      to: {
+        type: 'string',
+        format: 'date-time',
+      },
+      interval: {
+        type: 'string',
+        enum: ['day', 'week'],
+      },
+      scope: {
+        type: 'string',
+        enum: ['own', 'all'],
+      },
+    },
+  },
+};
@@ -2,6 +2,7 @@ import swaggerJsdoc from 'swagger-jsdoc';
 import { writeFileSync } from 'fs';
 import path from 'path';
 import logger from './logger.js';
+import { schemas } from './schemas.js';
 
 const options: swaggerJsdoc.Options = {
   definition: {
@@ -25,158 +26,73 @@ const options: swaggerJsdoc.Options = {
       },
     ],
     components: {
-      schemas: {
-        Message: {
-          type: 'object',
-          required: ['role', 'content'],
-          properties: {
-            role: {
-              type: 'string',
-              enum: ['user', 'model'],
-              description: 'The role of the message sender',
-            },
-            content: {
-              type: 'string',
-              description: 'The content of the message',
-            },
-            timestamp: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Optional timestamp of the message',
-            },
-          },
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key or HS256 JWT',
         },
-        ChatSession: {
-          type: 'object',
-          required: ['sessionId', 'messages', 'timestamp'],
-          properties: {
-            sessionId: {
-              type: 'string',
-              description: 'Unique identifier for the chat session',
-            },
-            messages: {
-              type: 'array',
-              items: {
-                $ref: '#/components/schemas/Message',
-              },
-              description: 'Array of messages in the chat session',
-            },
-            timestamp: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Timestamp when the session was created',
-            },
-            metadata: {
-              type: 'object',
-              properties: {
-                userAgent: {
-                  type: 'string',
-                },
-                clientVersion: {
-                  type: 'string',
-                },
-              },
-              description: 'Optional metadata about the session',
-            },
-          },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
         },
-        SaveChatRequest: {
-          type: 'object',
-          required: ['messages'],
-          properties: {
-            sessionId: {
-              type: 'string',
-              description: 'Optional session ID. If not provided, server will generate one.',
-            },
-            messages: {
-              type: 'array',
-              items: {
-                $ref: '#/components/schemas/Message',
-              },
-              minItems: 1,
-              description: 'Array of messages (must not be empty)',
-            },
-            timestamp: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Optional timestamp. Defaults to current server time if not provided.',
+      },
+      responses: {
+        Unauthorized: {
+          description: 'Missing or invalid API key or bearer token',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ErrorResponse' },
             },
           },
         },
-        SaveChatResponse: {
-          type: 'object',
-          properties: {
-            success: {
-              type: 'boolean',
-              description: 'Whether the operation was successful',
-            },
-            sessionId: {
-              type: 'string',
-              description: 'The session ID (generated by server if not provided)',
-            },
-            message: {
-              type: 'string',
-              description: 'Success message',
+        PayloadTooLarge: {
+          description: 'Request body is larger than the maxBodyBytes limit reported by /api/health',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ErrorResponse' },
             },
           },
         },
-        ErrorResponse: {
-          type: 'object',
-          properties: {
-            success: {
-              type: 'boolean',
-              example: false,
-            },
-            error: {
-              type: 'string',
-              description: 'Error type',
-            },
-            message: {
-              type: 'string',
-              description: 'Detailed error message',
+        ServiceUnavailable: {
+          description: 'The database could not be reached; retry later',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ErrorResponse' },
             },
           },
         },
-        HealthResponse: {
-          type: 'object',
-          properties: {
-            success: {
-              type: 'boolean',
-            },
-            status: {
-              type: 'string',
-              enum: ['healthy', 'degraded'],
-              description: 'Overall system health status',
+        TooManyRequests: {
+          description: 'Rate limit exceeded; retry after the number of seconds in Retry-After',
+          headers: {
+            'Retry-After': {
+              schema: { type: 'integer' },
+              description: 'Seconds until the rate limit window resets',
             },
-            timestamp: {
-              type: 'string',
-              format: 'date-time',
+            'RateLimit-Limit': {
+              schema: { type: 'integer' },
+              description: 'Requests allowed per window',
             },
-            uptime: {
-              type: 'number',
-              description: 'Server uptime in seconds',
+            'RateLimit-Remaining': {
+              schema: { type: 'integer' },
+              description: 'Requests left in the current window',
             },
-            database: {
-              type: 'object',
-              properties: {
-                connected: {
-                  type: 'boolean',
-                  description: 'Database connection status',
-                },
-                sessionCount: {
-                  type: 'number',
-                  description: 'Number of stored chat sessions',
-                },
-              },
+            'RateLimit-Reset': {
+              schema: { type: 'integer' },
+              description: 'Seconds until the current window resets',
             },
-            environment: {
-              type: 'string',
-              description: 'Current environment (development/production)',
+          },
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ErrorResponse' },
             },
           },
         },
       },
     },
+    security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
     tags: [
       {
         name: 'Health',
@@ -186,6 +102,18 @@ const options: swaggerJsdoc.Options = {
         name: 'Chat Sessions',
         description: 'Chat session management endpoints',
       },
+      {
+        name: 'Tech Specs',
+        description: 'Tech spec generation from chat sessions',
+      },
+      {
+        name: 'Analytics',
+        description: 'Usage statistics over stored chat sessions',
+      },
+      {
+        name: 'Admin',
+        description: 'Operational endpoints that require the admin role',
+      },
     ],
   },
   apis: ['./src/routes/*.ts', './src/controllers/*.ts'],
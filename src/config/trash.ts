@@ -0,0 +1,39 @@
+import logger from './logger.js';
+import { MAX_INTERVAL_MS } from '../jobs/scheduler.js';
+
+/**
+ * Trash configuration
+ *
+ * Deleted sessions stay in the trash for TRASH_RETENTION_DAYS (default 30)
+ * before the purge job removes them permanently. The job runs every
+ * TRASH_PURGE_INTERVAL_MINUTES (default 60, at most 35791, the longest
+ * interval a timer supports).
+ *
+ * Read lazily so values loaded by dotenv at startup are picked up.
+ */
+
+export interface TrashConfig {
+  retentionDays: number;
+  purgeIntervalMinutes: number;
+}
+
+function readPositiveNumber(name: string, fallback: number, max = Infinity): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0 || value > max) {
+    logger.warn({ context: { name, value: raw, fallback } }, 'Invalid trash setting, using default');
+    return fallback;
+  }
+  return value;
+}
+
+export function getTrashConfig(): TrashConfig {
+  return {
+    retentionDays: readPositiveNumber('TRASH_RETENTION_DAYS', 30),
+    purgeIntervalMinutes: readPositiveNumber('TRASH_PURGE_INTERVAL_MINUTES', 60, Math.floor(MAX_INTERVAL_MS / 60_000)),
+  };
+}
@@ -0,0 +1,66 @@
+import type { Request, Response } from 'express';
+import { getRetentionPolicy } from '../config/retention.js';
+import { retentionService } from '../services/retention.service.js';
+import logger from '../config/logger.js';
+import { NotFoundError } from '../errors/index.js';
+
+/**
+ * Controller for admin-only endpoints
+ */
+
+/**
+ * @swagger
+ * /api/admin/retention/dry-run:
+ *   get:
+ *     summary: Preview the data retention policy
+ *     description: Report how many sessions each retention rule would delete or archive right now, with a sample of session IDs. Nothing is changed. Requires the admin role.
+ *     tags: [Admin]
+ *     responses:
+ *       200:
+ *         description: Retention preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RetentionDryRunResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: No retention policy is configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const getRetentionDryRun = async (req: Request, res: Response): Promise<void> => {
+  const policy = getRetentionPolicy();
+
+  if (!policy) {
+    throw new NotFoundError('No retention policy is configured');
+  }
+
+  const report = await retentionService.dryRun(policy);
+
+  logger.info(
+    { context: { principalId: req.principal!.id, total: report.total } },
+    'Retention dry run requested'
+  );
+
+  res.json({
+    success: true,
+    data: report,
+  });
+};
@@ -0,0 +1,111 @@
+import type { Request, Response } from 'express';
+import type { AnalyticsInterval } from '../types/index.js';
+import { analyticsService } from '../services/analytics.service.js';
+import { ForbiddenError, ValidationError } from '../errors/index.js';
+
+/**
+ * Controller for usage analytics endpoints
+ */
+
+/**
+ * @swagger
+ * /api/analytics:
+ *   get:
+ *     summary: Chat usage statistics
+ *     description: |
+ *       Sessions per day or week, messages per session, the user to model message ratio, average
+ *       message length and the client versions in use, for the caller's sessions whose timestamp
+ *       falls in the date range. Computed in the database without loading transcripts.
+ *       Admins can pass scope=all to cover every user's sessions.
+ *     tags: [Analytics]
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include sessions with timestamp at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include sessions with timestamp at or before this date
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week]
+ *           default: day
+ *         description: Period for sessions.perPeriod
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [own, all]
+ *           default: own
+ *         description: all covers every user's sessions and requires the admin role
+ *     responses:
+ *       200:
+ *         description: Usage statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AnalyticsReport'
+ *       400:
+ *         description: Invalid query parameters, or from after to
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: scope=all without the admin role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const getAnalytics = async (req: Request, res: Response): Promise<void> => {
+  const { query } = req;
+  const from = query.from === undefined ? undefined : new Date(query.from as string);
+  const to = query.to === undefined ? undefined : new Date(query.to as string);
+
+  if (from && to && from > to) {
+    throw new ValidationError('from must not be after to');
+  }
+
+  const allSessions = query.scope === 'all';
+  if (allSessions && req.principal!.role !== 'admin') {
+    throw new ForbiddenError('scope=all requires the admin role');
+  }
+
+  const report = await analyticsService.getReport({
+    ownerId: allSessions ? undefined : req.principal!.id,
+    from,
+    to,
+    interval: (query.interval as AnalyticsInterval | undefined) ?? 'day',
+  });
+
+  res.json({
+    success: true,
+    data: report,
+  });
+};
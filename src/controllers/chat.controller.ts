@@ -1,19 +1,76 @@
 import type { Request, Response } from 'express';
-import type { SaveChatRequest, SaveChatResponse } from '../types/index.js';
-import { storageService } from '../services/storage.service.js';
-import logger from '../config/logger.js';
+import type {
+  AppendMessagesRequest,
+  AppendMessagesResponse,
+  BulkDeleteRequest,
+  ForkSessionRequest,
+  ForkSessionResponse,
+  ListSessionsOptions,
+  SaveChatRequest,
+  SaveChatResponse,
+  SessionSortField,
+  SortOrder,
+  UpdateSessionRequest,
+} from '../types/index.js';
+import { storageService, decodeCursor, SessionNotFoundError } from '../services/storage.service.js';
+import type { SaveSessionOptions } from '../services/storage.service.js';
+import { getTrashConfig } from '../config/trash.js';
+import { NotFoundError, ValidationError } from '../errors/index.js';
 
 /**
  * Controller for chat-related endpoints
  */
 
+/**
+ * Generate an ID for a session created without one
+ */
+function newSessionId(): string {
+  return `chat-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Format a session version as a strong ETag
+ */
+function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Read the If-Match header as a save precondition.
+ * Accepts *, "3", W/"3" and a bare 3; throws a ValidationError when malformed.
+ */
+function readIfMatch(req: Request): SaveSessionOptions['ifMatch'] {
+  const header = req.get('If-Match');
+  if (header === undefined) {
+    return undefined;
+  }
+
+  const value = header.trim();
+  if (value === '*') {
+    return '*';
+  }
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(value);
+  if (!match) {
+    throw new ValidationError('If-Match must be * or a session version ETag');
+  }
+  return Number(match[1]);
+}
+
 /**
  * @swagger
  * /api/chat/save:
  *   post:
  *     summary: Save a chat session
- *     description: Save a new chat session or update an existing one. If sessionId is not provided, the server will generate one automatically.
+ *     description: Save a new chat session or update an existing one. If sessionId is not provided, the server will generate one automatically. A session saved without a title is titled from its first user message. Send the ETag from a previous GET or save in If-Match to reject the save when another client changed the session in the meantime.
  *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: header
+ *         name: If-Match
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Expected session version (ETag), or * to require that the session exists
+ *         example: '"3"'
  *     requestBody:
  *       required: true
  *       content:
@@ -31,6 +88,17 @@ import logger from '../config/logger.js';
  *                   - role: "model"
  *                     content: "Hi there!"
  *                 timestamp: "2024-01-01T00:00:00.000Z"
+ *             withTitleAndTags:
+ *               summary: Save with a title and tags
+ *               value:
+ *                 sessionId: "chat-custom-123"
+ *                 title: "Webhook retry design"
+ *                 tags: ["billing", "api"]
+ *                 messages:
+ *                   - role: "user"
+ *                     content: "Hello"
+ *                 metadata:
+ *                   clientVersion: "1.4.0"
  *             withoutSessionId:
  *               summary: Save without session ID (server generates)
  *               value:
@@ -43,74 +111,162 @@ import logger from '../config/logger.js';
  *     responses:
  *       201:
  *         description: Chat session saved successfully
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: New session version
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/SaveChatResponse'
  *       400:
- *         description: Invalid request (missing or empty messages array)
+ *         description: Invalid request body or message limits exceeded (see details), or malformed If-Match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session belongs to another user or is in the trash
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       412:
+ *         description: If-Match did not match the stored version. The body contains the current server state.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VersionConflictResponse'
+ *       413:
+ *         $ref: '#/components/responses/PayloadTooLarge'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *       500:
  *         description: Server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
  */
 export const saveChatSession = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { sessionId, messages, timestamp } = req.body as SaveChatRequest;
-
-    // Validation
-    if (!messages || !Array.isArray(messages)) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid request',
-        message: 'messages array is required',
-      });
-      return;
-    }
-
-    if (messages.length === 0) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid request',
-        message: 'messages array cannot be empty',
-      });
-      return;
-    }
-
-    // Generate sessionId if not provided
-    const finalSessionId = sessionId || `chat-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-    // Save the session
-    await storageService.saveSession({
+  const { sessionId, messages, timestamp, title, tags, metadata } = req.body as SaveChatRequest;
+  const ifMatch = readIfMatch(req);
+
+  // Generate sessionId if not provided
+  const finalSessionId = sessionId || newSessionId();
+
+  // Save the session
+  const version = await storageService.saveSession(
+    {
       sessionId: finalSessionId,
       messages,
       timestamp: timestamp || new Date().toISOString(),
-    });
+      title,
+      tags,
+      metadata,
+    },
+    { ifMatch, ownerId: req.principal!.id }
+  );
 
-    const response: SaveChatResponse = {
-      success: true,
-      sessionId: finalSessionId,
-      message: 'Chat session saved successfully',
-    };
-
-    res.status(201).json(response);
-  } catch (error) {
-    logger.error(
-      { context: { error: error instanceof Error ? error.message : 'Unknown error' } },
-      'Error saving chat session'
-    );
-    res.status(500).json({
-      success: false,
-      error: 'Failed to save chat session',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
+  const response: SaveChatResponse = {
+    success: true,
+    sessionId: finalSessionId,
+    version,
+    message: 'Chat session saved successfully',
+  };
+
+  res.status(201).set('ETag', toETag(version)).json(response);
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/messages:
+ *   post:
+ *     summary: Append messages to a chat session
+ *     description: Atomically append one or more messages to the end of a session's transcript. The session is created on first append. Concurrent appends are never lost.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AppendMessagesRequest'
+ *           example:
+ *             messages:
+ *               - role: "user"
+ *                 content: "What about retries?"
+ *     responses:
+ *       200:
+ *         description: Messages appended to an existing session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AppendMessagesResponse'
+ *       201:
+ *         description: Session created with the appended messages
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AppendMessagesResponse'
+ *       400:
+ *         description: Invalid request (missing, empty or malformed messages), or the session would exceed the message or character limits
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session belongs to another user or is in the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       413:
+ *         $ref: '#/components/responses/PayloadTooLarge'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const appendChatMessages = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+  const { messages, timestamp } = req.body as AppendMessagesRequest;
+
+  const { created, indices, messageCount, version } = await storageService.appendMessages(sessionId, messages, {
+    timestamp: timestamp && new Date(timestamp).toISOString(),
+    ownerId: req.principal!.id,
+  });
+
+  const response: AppendMessagesResponse = {
+    success: true,
+    sessionId,
+    created,
+    indices,
+    messageCount,
+    version,
+  };
+
+  res.status(created ? 201 : 200).set('ETag', toETag(version)).json(response);
 };
 
 /**
@@ -118,7 +274,7 @@ export const saveChatSession = async (req: Request, res: Response): Promise<void
  * /api/chat/{sessionId}:
  *   get:
  *     summary: Get a specific chat session
- *     description: Retrieve a chat session by its unique session ID
+ *     description: Retrieve a chat session by its unique session ID, with the session it was forked from and the sessions forked from it
  *     tags: [Chat Sessions]
  *     parameters:
  *       - in: path
@@ -131,6 +287,11 @@ export const saveChatSession = async (req: Request, res: Response): Promise<void
  *     responses:
  *       200:
  *         description: Chat session retrieved successfully
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: Current session version, to send as If-Match on the next save
  *         content:
  *           application/json:
  *             schema:
@@ -140,62 +301,270 @@ export const saveChatSession = async (req: Request, res: Response): Promise<void
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   $ref: '#/components/schemas/ChatSession'
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ChatSession'
+ *                     - type: object
+ *                       properties:
+ *                         lineage:
+ *                           $ref: '#/components/schemas/SessionLineage'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       404:
  *         description: Chat session not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *       500:
  *         description: Server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
  */
 export const getChatSession = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { sessionId } = req.params;
-
-    const session = await storageService.getSession(sessionId);
-
-    if (!session) {
-      res.status(404).json({
-        success: false,
-        error: 'Not found',
-        message: 'Chat session not found',
-      });
-      return;
-    }
-
-    res.json({
-      success: true,
-      data: session,
-    });
-  } catch (error) {
-    logger.error(
-      { context: { sessionId: req.params.sessionId, error: error instanceof Error ? error.message : 'Unknown error' } },
-      'Error fetching chat session'
-    );
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch chat session',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
+  const { sessionId } = req.params;
+
+  const [session, lineage] = await Promise.all([
+    storageService.getSession(sessionId, req.principal!.id),
+    storageService.getLineage(sessionId, req.principal!.id),
+  ]);
+
+  if (!session || !lineage) {
+    throw new SessionNotFoundError(sessionId);
+  }
+
+  if (session.version !== undefined) {
+    res.set('ETag', toETag(session.version));
   }
+
+  res.json({
+    success: true,
+    data: { ...session, lineage },
+  });
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}:
+ *   patch:
+ *     summary: Update a chat session's title, tags or metadata
+ *     description: Change the session's details without touching its messages. Omitted fields are left as they are; tags and metadata are replaced as a whole. Send the ETag in If-Match to reject the update when another client changed the session in the meantime.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *       - in: header
+ *         name: If-Match
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Expected session version (ETag), or * to require that the session exists
+ *         example: '"3"'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateSessionRequest'
+ *           examples:
+ *             rename:
+ *               summary: Rename and retag
+ *               value:
+ *                 title: "Webhook retry design"
+ *                 tags: ["billing", "api"]
+ *             resetTitle:
+ *               summary: Go back to the generated title
+ *               value:
+ *                 title: null
+ *     responses:
+ *       200:
+ *         description: Chat session updated. The new version is also returned as the ETag header.
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: New session version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SaveChatResponse'
+ *       400:
+ *         description: Invalid request body or malformed If-Match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       412:
+ *         description: If-Match did not match the stored version. The body contains the current server state.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VersionConflictResponse'
+ *       413:
+ *         $ref: '#/components/responses/PayloadTooLarge'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const updateChatSession = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+  const { title, tags, metadata } = req.body as UpdateSessionRequest;
+  const ifMatch = readIfMatch(req);
+
+  const version = await storageService.updateSession(
+    sessionId,
+    { title, tags, metadata },
+    { ifMatch, ownerId: req.principal!.id }
+  );
+
+  const response: SaveChatResponse = {
+    success: true,
+    sessionId,
+    version,
+    message: 'Chat session updated successfully',
+  };
+
+  res.set('ETag', toETag(version)).json(response);
 };
 
+const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Split a comma-separated tags filter, ignoring empty entries
+ */
+function parseTags(value: string | undefined): string[] | undefined {
+  const tags = value?.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  return tags && tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Convert an already validated ListSessionsQuery into storage options.
+ * Throws a ValidationError when the cursor cannot be decoded.
+ */
+function toListOptions(req: Request): ListSessionsOptions {
+  const { query } = req;
+  const cursor = query.cursor as string | undefined;
+  if (cursor !== undefined && !decodeCursor(cursor)) {
+    throw new ValidationError('cursor is invalid');
+  }
+
+  const toDate = (value: unknown) => (value === undefined ? undefined : new Date(value as string));
+
+  return {
+    ownerId: req.principal!.id,
+    limit: (query.limit as unknown as number | undefined) ?? DEFAULT_PAGE_SIZE,
+    cursor,
+    sortBy: (query.sortBy as SessionSortField | undefined) ?? 'timestamp',
+    order: (query.order as SortOrder | undefined) ?? 'desc',
+    timestampFrom: toDate(query.from),
+    timestampTo: toDate(query.to),
+    createdFrom: toDate(query.createdFrom),
+    createdTo: toDate(query.createdTo),
+    tags: parseTags(query.tags as string | undefined),
+  };
+}
+
 /**
  * @swagger
  * /api/chat:
  *   get:
- *     summary: Get all chat sessions
- *     description: Retrieve all stored chat sessions, ordered by most recent first
+ *     summary: List chat sessions
+ *     description: Retrieve stored chat sessions one page at a time. Pass the returned nextCursor as cursor to fetch the following page.
  *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of sessions to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous response's nextCursor
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [timestamp, createdAt, updatedAt]
+ *           default: timestamp
+ *         description: Field to sort by
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *         description: Sort direction
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include sessions with timestamp at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include sessions with timestamp at or before this date
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include sessions created at or after this date
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include sessions created at or before this date
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tags; only sessions carrying all of them are included
+ *         example: billing,api
+ *       - in: query
+ *         name: view
+ *         schema:
+ *           type: string
+ *           enum: [full, summary]
+ *           default: full
+ *         description: Use summary to return ChatSessionSummary items without message bodies
  *     responses:
  *       200:
- *         description: List of all chat sessions
+ *         description: A page of chat sessions (or summaries when view=summary)
  *         content:
  *           application/json:
  *             schema:
@@ -206,90 +575,664 @@ export const getChatSession = async (req: Request, res: Response): Promise<void>
  *                   example: true
  *                 count:
  *                   type: number
- *                   description: Total number of sessions
+ *                   description: Number of sessions in this page
  *                   example: 5
  *                 data:
  *                   type: array
  *                   items:
- *                     $ref: '#/components/schemas/ChatSession'
+ *                     oneOf:
+ *                       - $ref: '#/components/schemas/ChatSession'
+ *                       - $ref: '#/components/schemas/ChatSessionSummary'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor for the next page, or null on the last page
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *       500:
  *         description: Server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
  */
-export const getAllChatSessions = async (_req: Request, res: Response): Promise<void> => {
-  try {
-    const sessions = await storageService.getAllSessions();
-
-    res.json({
-      success: true,
-      count: sessions.length,
-      data: sessions,
-    });
-  } catch (error) {
-    logger.error(
-      { context: { error: error instanceof Error ? error.message : 'Unknown error' } },
-      'Error fetching all chat sessions'
-    );
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch chat sessions',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
+export const getAllChatSessions = async (req: Request, res: Response): Promise<void> => {
+  if (req.query.view === 'summary') {
+    await getChatSessionSummaries(req, res);
+    return;
   }
+
+  const { items, nextCursor } = await storageService.listSessions(toListOptions(req));
+
+  res.json({
+    success: true,
+    count: items.length,
+    data: items,
+    nextCursor,
+  });
 };
 
 /**
  * @swagger
- * /api/health:
+ * /api/chat/summaries:
  *   get:
- *     summary: Health check endpoint
- *     description: Check the health status of the API and database connection
- *     tags: [Health]
+ *     summary: List chat session summaries
+ *     description: Retrieve lightweight session summaries (message count, first user message preview, last activity) without message bodies. Accepts the same pagination, filter and sort parameters as GET /api/chat.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [timestamp, createdAt, updatedAt]
+ *           default: timestamp
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tags; only sessions carrying all of them are included
+ *         example: billing,api
  *     responses:
  *       200:
- *         description: System is healthy
+ *         description: A page of session summaries
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/HealthResponse'
- *       503:
- *         description: System is degraded (database connection failed)
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 count:
+ *                   type: number
+ *                   description: Number of summaries in this page
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChatSessionSummary'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/HealthResponse'
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
  */
-export const healthCheck = async (_req: Request, res: Response): Promise<void> => {
-  let dbHealthy = false;
-  let sessionCount = 0;
-
-  try {
-    // Test database by attempting to count sessions
-    // If this succeeds, the database connection is healthy
-    sessionCount = await storageService.getSessionCount();
-    dbHealthy = true;
-  } catch (error) {
-    logger.error(
-      { context: { error: error instanceof Error ? error.message : 'Unknown error' } },
-      'Database health check failed'
-    );
-  }
+export const getChatSessionSummaries = async (req: Request, res: Response): Promise<void> => {
+  const { items, nextCursor } = await storageService.listSessionSummaries(toListOptions(req));
 
-  const healthData = {
+  res.json({
     success: true,
-    status: dbHealthy ? 'healthy' : 'degraded',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    database: {
-      connected: dbHealthy,
-      sessionCount,
-    },
-    environment: process.env.NODE_ENV || 'development',
-  };
-
-  res.status(dbHealthy ? 200 : 503).json(healthData);
+    count: items.length,
+    data: items,
+    nextCursor,
+  });
 };
 
+/**
+ * @swagger
+ * /api/chat/search:
+ *   get:
+ *     summary: Search chat sessions
+ *     description: |
+ *       Full-text search over message content. Supports quoted phrases, OR and -term exclusions.
+ *       Returns the best matching sessions first, with the indices of every matching message
+ *       and highlighted snippets.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *         example: payment webhook
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Matching sessions, best match first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 count:
+ *                   type: number
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChatSearchResult'
+ *       400:
+ *         description: Missing or invalid query
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const searchChatSessions = async (req: Request, res: Response): Promise<void> => {
+  const results = await storageService.searchSessions({
+    query: req.query.q as string,
+    ownerId: req.principal!.id,
+    limit: (req.query.limit as unknown as number | undefined) ?? DEFAULT_SEARCH_LIMIT,
+  });
+
+  res.json({
+    success: true,
+    count: results.length,
+    data: results,
+  });
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}:
+ *   delete:
+ *     summary: Delete a chat session
+ *     description: Move a chat session to the trash. It can be restored until the trash purge job removes it.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *     responses:
+ *       204:
+ *         description: Chat session moved to the trash
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const deleteChatSession = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+
+  const deleted = await storageService.deleteSession(sessionId, req.principal!.id);
+
+  if (!deleted) {
+    throw new SessionNotFoundError(sessionId);
+  }
+
+  res.status(204).send();
+};
+
+/**
+ * @swagger
+ * /api/chat/bulk-delete:
+ *   post:
+ *     summary: Delete many chat sessions
+ *     description: Move sessions to the trash by ID and/or every session with a timestamp before a cutoff date. When both are given, only sessions matching both are deleted.
+ *     tags: [Chat Sessions]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BulkDeleteRequest'
+ *           examples:
+ *             byIds:
+ *               summary: Delete by session IDs
+ *               value:
+ *                 sessionIds: ["chat-1", "chat-2"]
+ *             byCutoff:
+ *               summary: Delete everything older than a date
+ *               value:
+ *                 before: "2024-01-01T00:00:00.000Z"
+ *     responses:
+ *       200:
+ *         description: Sessions deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 deletedCount:
+ *                   type: number
+ *                   description: Number of sessions deleted
+ *                   example: 2
+ *       400:
+ *         description: Invalid request body (see details)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       413:
+ *         $ref: '#/components/responses/PayloadTooLarge'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const bulkDeleteChatSessions = async (req: Request, res: Response): Promise<void> => {
+  const { sessionIds, before } = req.body as BulkDeleteRequest;
+
+  const cutoff = before === undefined ? undefined : new Date(before);
+
+  const deletedCount = await storageService.deleteSessions({
+    sessionIds,
+    before: cutoff,
+    ownerId: req.principal!.id,
+  });
+
+  res.json({
+    success: true,
+    deletedCount,
+  });
+};
+
+/**
+ * @swagger
+ * /api/chat/trash:
+ *   get:
+ *     summary: List chat sessions in the trash
+ *     description: Summaries of deleted sessions, with the same pagination, filters and sorting as GET /api/chat. Sessions are purged permanently once they have been in the trash longer than the retention period.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [timestamp, createdAt, updatedAt]
+ *           default: timestamp
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *     responses:
+ *       200:
+ *         description: A page of trashed session summaries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 count:
+ *                   type: number
+ *                 retentionDays:
+ *                   type: number
+ *                   description: Days a session stays in the trash before it is purged
+ *                   example: 30
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedSessionSummary'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const getTrashedChatSessions = async (req: Request, res: Response): Promise<void> => {
+  const { items, nextCursor } = await storageService.listTrash(toListOptions(req));
+
+  res.json({
+    success: true,
+    count: items.length,
+    retentionDays: getTrashConfig().retentionDays,
+    data: items,
+    nextCursor,
+  });
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/fork:
+ *   post:
+ *     summary: Fork a chat session from a message
+ *     description: |
+ *       Create a new session with the messages up to and including messageIndex, to explore an
+ *       alternative direction without changing the original. The fork keeps the parent's metadata
+ *       and records the parent session and fork point, shown as lineage on both sessions.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The session to fork
+ *         example: "chat-1234567890-abc123"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ForkSessionRequest'
+ *     responses:
+ *       201:
+ *         description: Fork created. Its version is also returned as the ETag header.
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: Version of the new session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ForkSessionResponse'
+ *       400:
+ *         description: Invalid request body or message index past the end of the transcript
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       413:
+ *         $ref: '#/components/responses/PayloadTooLarge'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const forkChatSession = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+  const { messageIndex } = req.body as ForkSessionRequest;
+  const forkSessionId = newSessionId();
+
+  const { messageCount, version } = await storageService.forkSession(
+    sessionId,
+    forkSessionId,
+    messageIndex,
+    req.principal!.id
+  );
+
+  const response: ForkSessionResponse = {
+    success: true,
+    sessionId: forkSessionId,
+    parentSessionId: sessionId,
+    forkPoint: messageIndex,
+    messageCount,
+    version,
+    message: 'Chat session forked successfully',
+  };
+
+  res.status(201).set('ETag', toETag(version)).json(response);
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/restore:
+ *   post:
+ *     summary: Restore a chat session from the trash
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *     responses:
+ *       200:
+ *         description: Chat session restored. The new version is also returned as the ETag header.
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: Current session version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SaveChatResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session is not in the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const restoreChatSession = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+
+  const version = await storageService.restoreSession(sessionId, req.principal!.id);
+
+  if (version === null) {
+    throw new NotFoundError(`Chat session ${sessionId} not found in trash`);
+  }
+
+  const response: SaveChatResponse = {
+    success: true,
+    sessionId,
+    version,
+    message: 'Chat session restored successfully',
+  };
+
+  res.set('ETag', toETag(version)).json(response);
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/redactions:
+ *   get:
+ *     summary: Get the redaction audit of a chat session
+ *     description: |
+ *       Lists what the redaction pipeline replaced in each message before it was stored:
+ *       the detector, the mode and how many values were replaced. Entries are kept for
+ *       every version of the session, oldest first.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *     responses:
+ *       200:
+ *         description: Redaction audit entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 count:
+ *                   type: number
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RedactionAuditEntry'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const getChatSessionRedactions = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+
+  const entries = await storageService.getRedactionAudit(sessionId, req.principal!.id);
+
+  if (entries === null) {
+    throw new SessionNotFoundError(sessionId);
+  }
+
+  res.json({
+    success: true,
+    count: entries.length,
+    data: entries,
+  });
+};
@@ -0,0 +1,93 @@
+import type { Request, Response } from 'express';
+import type { ExportFormat } from '../types/index.js';
+import { storageService, SessionNotFoundError } from '../services/storage.service.js';
+import { exportService } from '../services/export.service.js';
+
+/**
+ * Controller for transcript export endpoints
+ */
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/export:
+ *   get:
+ *     summary: Export a chat session transcript
+ *     description: |
+ *       Render the session as a downloadable document with role headings, message timestamps
+ *       and the session metadata as front matter. The html format includes print styles so it
+ *       can be saved as PDF from a browser.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [markdown, html, jsonl, txt]
+ *           default: markdown
+ *     responses:
+ *       200:
+ *         description: Rendered transcript, sent as an attachment
+ *         headers:
+ *           Content-Disposition:
+ *             schema:
+ *               type: string
+ *             example: attachment; filename="chat-1234567890-abc123.md"
+ *         content:
+ *           text/markdown:
+ *             schema:
+ *               type: string
+ *           text/html:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Unsupported format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const exportChatSession = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+  const format = (req.query.format as ExportFormat | undefined) ?? 'markdown';
+
+  const session = await storageService.getSession(sessionId, req.principal!.id);
+
+  if (!session) {
+    throw new SessionNotFoundError(sessionId);
+  }
+
+  const document = exportService.render(session, format);
+
+  res.attachment(document.filename).type(document.contentType).send(document.body);
+};
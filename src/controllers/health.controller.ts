@@ -0,0 +1,121 @@
+import type { Request, Response } from 'express';
+import { healthService } from '../services/health.service.js';
+import { getLimits } from '../config/limits.js';
+import logger from '../config/logger.js';
+
+/**
+ * Controller for health and probe endpoints
+ */
+
+/**
+ * @swagger
+ * /api/health:
+ *   get:
+ *     summary: Health check endpoint
+ *     description: |
+ *       Check the health status of the API and database connection, with the active size limits.
+ *       Orchestrators should probe /api/health/live and /api/health/ready instead.
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: System is healthy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HealthResponse'
+ *       503:
+ *         description: System is degraded (database connection failed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HealthResponse'
+ */
+export const healthCheck = async (_req: Request, res: Response): Promise<void> => {
+  // The same SELECT 1 as the readiness probe, so polling this stays cheap
+  const database = await healthService.checkDatabaseHealth();
+  const dbHealthy = database.status === 'up';
+
+  const healthData = {
+    success: true,
+    status: dbHealthy ? 'healthy' : 'degraded',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    database: {
+      connected: dbHealthy,
+      latencyMs: database.latencyMs,
+    },
+    environment: process.env.NODE_ENV || 'development',
+    limits: getLimits(),
+  };
+
+  res.status(dbHealthy ? 200 : 503).json(healthData);
+};
+
+/**
+ * @swagger
+ * /api/health/live:
+ *   get:
+ *     summary: Liveness probe
+ *     description: |
+ *       Answers 200 whenever the process can serve HTTP. Checks no dependencies, so a database
+ *       outage does not get the instance restarted; use /api/health/ready to stop routing traffic.
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: The process is running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LivenessResponse'
+ */
+export const getLiveness = async (_req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    status: 'alive',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+  });
+};
+
+/**
+ * @swagger
+ * /api/health/ready:
+ *   get:
+ *     summary: Readiness probe
+ *     description: |
+ *       Checks the dependencies needed to serve traffic, each with its status and latency: the
+ *       database (a SELECT 1 round trip), migrations (none pending or failed) and Secret Manager
+ *       (skipped outside production). Each check times out after 2 seconds.
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Every dependency is up or skipped
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReadinessResponse'
+ *       503:
+ *         description: At least one dependency is down
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReadinessResponse'
+ */
+export const getReadiness = async (_req: Request, res: Response): Promise<void> => {
+  const report = await healthService.checkReadiness();
+
+  if (report.status !== 'ready') {
+    const down = Object.entries(report.checks)
+      .filter(([, check]) => check.status === 'down')
+      .map(([name]) => name);
+    logger.warn({ context: { down } }, 'Instance is not ready');
+  }
+
+  res.status(report.status === 'ready' ? 200 : 503).json({
+    success: true,
+    ...report,
+  });
+};
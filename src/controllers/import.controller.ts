@@ -0,0 +1,116 @@
+import type { Request, Response } from 'express';
+import type { ImportConflictMode, ImportFormat } from '../types/index.js';
+import { importService, readLines } from '../services/import.service.js';
+import { getLimits } from '../config/limits.js';
+import { PayloadTooLargeError, UnsupportedMediaTypeError } from '../errors/index.js';
+
+/**
+ * Controller for bulk import endpoints
+ */
+
+const JSONL_CONTENT_TYPES = ['application/x-ndjson', 'application/jsonl', 'application/json-lines', 'text/plain'];
+
+/**
+ * @swagger
+ * /api/chat/import:
+ *   post:
+ *     summary: Import chat sessions from JSONL
+ *     description: |
+ *       Stream a JSONL upload with one conversation per line. Records are validated and
+ *       upserted in batches, and the response reports every non-empty line as imported,
+ *       skipped or failed with a reason.
+ *
+ *       Supported record formats:
+ *       - `native`: a ChatSession, as returned by GET /api/chat/{sessionId}
+ *       - `chatgpt`: one entry of a ChatGPT `conversations.json` export (stored as `chatgpt-<id>`)
+ *       - `claude`: one entry of a Claude `conversations.json` export (stored as `claude-<uuid>`)
+ *
+ *       With `format=auto` each record's format is detected from its shape.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [auto, native, chatgpt, claude]
+ *           default: auto
+ *       - in: query
+ *         name: onConflict
+ *         description: Leave existing sessions with the same ID and report the record as skipped, or replace them
+ *         schema:
+ *           type: string
+ *           enum: [replace, skip]
+ *           default: skip
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *           example: |
+ *             {"sessionId":"chat-1","messages":[{"role":"user","content":"Hello"}],"timestamp":"2024-01-01T00:00:00.000Z"}
+ *     responses:
+ *       200:
+ *         description: Import report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       413:
+ *         description: |
+ *           Upload is over maxImportBytes, or a line is over maxBodyBytes. When this is found
+ *           partway through a streamed upload, `data` reports the records imported before it.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportAbortedResponse'
+ *       415:
+ *         description: Upload is not JSONL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error; if the import had started, `data` reports the records read so far
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportAbortedResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const importChatSessions = async (req: Request, res: Response): Promise<void> => {
+  // JSON bodies have already been consumed by express.json(), so only JSONL can be streamed
+  if (!req.is(JSONL_CONTENT_TYPES)) {
+    throw new UnsupportedMediaTypeError('Upload must be JSONL with Content-Type: application/x-ndjson');
+  }
+
+  // Uploads that announce their size are rejected before any record is written;
+  // streamed ones stop at the limit, keeping the records imported up to then
+  const { maxBodyBytes, maxImportBytes } = getLimits();
+  if (Number(req.headers['content-length']) > maxImportBytes) {
+    throw new PayloadTooLargeError(`Import upload must be at most ${maxImportBytes} bytes`);
+  }
+
+  const lines = readLines(req, { maxBytes: maxImportBytes, maxLineBytes: maxBodyBytes });
+  const report = await importService.importLines(lines, {
+    format: (req.query.format as ImportFormat | undefined) ?? 'auto',
+    onConflict: (req.query.onConflict as ImportConflictMode | undefined) ?? 'skip',
+    ownerId: req.principal!.id,
+  });
+
+  res.json({
+    success: true,
+    ...report,
+  });
+};
@@ -0,0 +1,61 @@
+import type { Request, Response } from 'express';
+import { getConnectionCounts } from '../config/database.js';
+import { dbConnections, metricsRegistry } from '../config/metrics.js';
+import logger from '../config/logger.js';
+
+/**
+ * Controller for the Prometheus scrape endpoint
+ */
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     summary: Prometheus metrics
+ *     description: |
+ *       Metrics in the Prometheus text format: HTTP request counts and latency by route and status
+ *       (techspec_http_*), Prisma query durations (techspec_db_query_duration_seconds), database
+ *       connections (techspec_db_connections), session storage operations
+ *       (techspec_session_operations_total) and process metrics (process_*, nodejs_*).
+ *       When METRICS_TOKEN is set, send it as a bearer token; API keys are not accepted.
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Current metric values
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 # HELP techspec_http_requests_total HTTP requests by method, route pattern and status code
+ *                 # TYPE techspec_http_requests_total counter
+ *                 techspec_http_requests_total{method="GET",route="/api/chat/:sessionId",status="200"} 12
+ *       401:
+ *         description: METRICS_TOKEN is set and the request did not send it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+export const getMetrics = async (_req: Request, res: Response): Promise<void> => {
+  // Sample connections on scrape; keep serving the other metrics if the database is down
+  try {
+    const counts = await getConnectionCounts();
+    dbConnections.reset();
+    for (const { state, connections } of counts) {
+      dbConnections.set({ state }, connections);
+    }
+  } catch (error) {
+    dbConnections.reset();
+    logger.warn({ context: { error: error instanceof Error ? error.message : 'Unknown error' } }, 'Could not sample database connections');
+  }
+
+  res.set('Content-Type', metricsRegistry.contentType).send(await metricsRegistry.metrics());
+};
@@ -0,0 +1,237 @@
+import type { Request, Response } from 'express';
+import { storageService, SessionNotFoundError } from '../services/storage.service.js';
+import { revisionService } from '../services/revision.service.js';
+import { NotFoundError } from '../errors/index.js';
+
+/**
+ * Controller for session revision history endpoints
+ */
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/revisions:
+ *   get:
+ *     summary: List the revisions of a chat session
+ *     description: Every write that changes the session version keeps a revision of the session, numbered by the version it created. Only the newest revisions are kept (REVISION_LIMIT, default 100). Newest first.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *     responses:
+ *       200:
+ *         description: Revisions without their messages
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 count:
+ *                   type: number
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChatRevisionSummary'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const listChatRevisions = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+
+  const revisions = await storageService.listRevisions(sessionId, req.principal!.id);
+
+  if (revisions === null) {
+    throw new SessionNotFoundError(sessionId);
+  }
+
+  res.json({
+    success: true,
+    count: revisions.length,
+    data: revisions,
+  });
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/revisions/{rev}:
+ *   get:
+ *     summary: Get one revision of a chat session
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *       - in: path
+ *         name: rev
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Revision (session version) number
+ *     responses:
+ *       200:
+ *         description: The session as saved in this revision
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ChatRevision'
+ *       400:
+ *         description: Invalid revision number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session or revision not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const getChatRevision = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+  const rev = req.params.rev as unknown as number;
+
+  const revision = await storageService.getRevision(sessionId, rev, req.principal!.id);
+
+  if (!revision) {
+    throw new NotFoundError(`Revision ${rev} of chat session ${sessionId} not found`);
+  }
+
+  res.json({
+    success: true,
+    data: revision,
+  });
+};
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/diff:
+ *   get:
+ *     summary: Compare two revisions of a chat session
+ *     description: |
+ *       Lists the messages added, removed or edited between two revisions. Messages are aligned
+ *       by their longest common subsequence and compared by role and content. A removed and an
+ *       added message with the same role at the same place are reported as one edit.
+ *     tags: [Chat Sessions]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Older revision number
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Newer revision number
+ *     responses:
+ *       200:
+ *         description: Differences between the two revisions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RevisionDiff'
+ *       400:
+ *         description: Missing or invalid revision numbers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session or one of the revisions not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const diffChatRevisions = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+  const from = req.query.from as unknown as number;
+  const to = req.query.to as unknown as number;
+
+  const diff = await revisionService.diff(sessionId, from, to, req.principal!.id);
+
+  if (!diff) {
+    throw new NotFoundError(`Chat session ${sessionId}, revision ${from} or revision ${to} not found`);
+  }
+
+  res.json({
+    success: true,
+    data: diff,
+  });
+};
@@ -0,0 +1,69 @@
+import type { Request, Response } from 'express';
+import { specService } from '../services/spec.service.js';
+import { SessionNotFoundError } from '../services/storage.service.js';
+
+/**
+ * Controller for tech spec endpoints
+ */
+
+/**
+ * @swagger
+ * /api/chat/{sessionId}/spec:
+ *   post:
+ *     summary: Generate a tech spec from a chat session
+ *     description: Build a technical spec document (overview, goals, non-goals, requirements, architecture, open questions and risks) from the session's messages and store it
+ *     tags: [Tech Specs]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The unique session ID
+ *         example: "chat-1234567890-abc123"
+ *     responses:
+ *       201:
+ *         description: Tech spec generated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TechSpec'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         $ref: '#/components/responses/ServiceUnavailable'
+ */
+export const generateTechSpec = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+
+  const spec = await specService.generateSpec(sessionId, req.principal!.id);
+
+  if (!spec) {
+    throw new SessionNotFoundError(sessionId);
+  }
+
+  res.status(201).json({
+    success: true,
+    data: spec,
+  });
+};
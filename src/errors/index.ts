@@ -0,0 +1,159 @@
+import type { Response } from 'express';
+import type { ValidationErrorDetail } from '../middleware/validation.js';
+import { getRequestId } from '../config/request-context.js';
+
+/**
+ * Error model
+ *
+ * Every error response has the same body: a human-readable `error` summary
+ * and `message`, plus a stable machine-readable `code` that clients should
+ * branch on. Codes are never renamed or removed; new ones may be added.
+ *
+ * Controllers and services throw AppError subclasses and errorHandler turns
+ * them into responses; middleware that answers directly uses sendError.
+ */
+
+export const ERROR_CODES = [
+  'VALIDATION_FAILED',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'VERSION_CONFLICT',
+  'PAYLOAD_TOO_LARGE',
+  'UNSUPPORTED_MEDIA_TYPE',
+  'RATE_LIMITED',
+  'INTERNAL_ERROR',
+  'SERVICE_UNAVAILABLE',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code: ErrorCode;
+  message: string;
+  /** Per-field problems, only on validation errors */
+  details?: ValidationErrorDetail[];
+  /** Current server state on version conflicts; the partial report when an import stops */
+  data?: unknown;
+  requestId?: string;
+}
+
+/**
+ * Base class for errors that map to an HTTP response
+ */
+export class AppError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    /** Short summary sent as `error`, e.g. "Not found" */
+    public readonly title: string,
+    message: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toResponse(): ErrorResponse {
+    return { success: false, error: this.title, code: this.code, message: this.message };
+  }
+}
+
+/**
+ * The request is malformed or breaks a limit (400)
+ */
+export class ValidationError extends AppError {
+  constructor(message: string, public readonly details?: ValidationErrorDetail[]) {
+    super(400, 'VALIDATION_FAILED', 'Validation failed', message);
+  }
+
+  toResponse(): ErrorResponse {
+    return this.details ? { ...super.toResponse(), details: this.details } : super.toResponse();
+  }
+}
+
+/**
+ * Missing or invalid credentials (401)
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string) {
+    super(401, 'UNAUTHORIZED', 'Unauthorized', message);
+  }
+}
+
+/**
+ * The principal is authenticated but not allowed to do this (403)
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(403, 'FORBIDDEN', 'Forbidden', message);
+  }
+}
+
+/**
+ * The resource does not exist or belongs to someone else (404)
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(404, 'NOT_FOUND', 'Not found', message);
+  }
+}
+
+/**
+ * A conditional request's If-Match precondition failed, because a concurrent
+ * write changed the resource first (412). Carries the current server state, sent as `data`.
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, public readonly current: unknown = null) {
+    super(412, 'VERSION_CONFLICT', 'Precondition failed', message);
+  }
+
+  toResponse(): ErrorResponse {
+    return { ...super.toResponse(), data: this.current };
+  }
+}
+
+/**
+ * The request body is over the size limit (413)
+ */
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string) {
+    super(413, 'PAYLOAD_TOO_LARGE', 'Payload too large', message);
+  }
+}
+
+/**
+ * The request body has a content type the endpoint cannot read (415)
+ */
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string) {
+    super(415, 'UNSUPPORTED_MEDIA_TYPE', 'Unsupported media type', message);
+  }
+}
+
+/**
+ * The client exceeded a rate limit (429)
+ */
+export class RateLimitError extends AppError {
+  constructor(message: string) {
+    super(429, 'RATE_LIMITED', 'Too many requests', message);
+  }
+}
+
+/**
+ * A dependency such as the database cannot be reached; retrying later may succeed (503)
+ */
+export class UnavailableError extends AppError {
+  constructor(message: string) {
+    super(503, 'SERVICE_UNAVAILABLE', 'Service unavailable', message);
+  }
+}
+
+/**
+ * Send an error response, tagged with the current request ID
+ */
+export function sendError(res: Response, error: AppError): void {
+  const body: ErrorResponse = { ...error.toResponse(), requestId: getRequestId() };
+  res.status(error.status).json(body);
+}
@@ -5,9 +5,27 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import swaggerUi from 'swagger-ui-express';
 import routes from './routes/index.js';
-import { errorHandler, requestLogger } from './middleware/index.js';
+import {
+  asyncHandler,
+  errorHandler,
+  httpMetrics,
+  requestContext,
+  requestLogger,
+  requireMetricsToken,
+} from './middleware/index.js';
+import { getMetrics } from './controllers/metrics.controller.js';
 import { testDatabaseConnection, disconnectDatabase, getDatabaseInfo } from './config/database.js';
 import swaggerSpec from './config/swagger.js';
+import { scheduler } from './jobs/scheduler.js';
+import { createTrashPurgeJob } from './jobs/trash-purge.job.js';
+import { createRevisionPruneJob } from './jobs/revision-prune.job.js';
+import { createRetentionJob } from './jobs/retention.job.js';
+import { getRetentionPolicy } from './config/retention.js';
+import { getRedactionConfig } from './config/redaction.js';
+import { getLimits } from './config/limits.js';
+import { getLegacyOwnerId } from './config/legacy-owner.js';
+import { redactionService } from './services/redaction.service.js';
+import { storageService } from './services/storage.service.js';
 import logger from './config/logger.js';
 
 // Load environment variables
@@ -17,14 +35,29 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
 
+// Number of proxies in front of the app (Cloud Run: 1), so req.ip is the client address for rate limiting
+app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS) || false);
+
 // Middleware
+app.use(requestContext); // X-Request-Id, attached to every log line
+app.use(httpMetrics); // Request counts and latency for /metrics
 app.use(helmet()); // Security headers
 app.use(cors({
   origin: FRONTEND_URL,
   credentials: true,
+  exposedHeaders: [
+    'ETag',
+    'Content-Disposition',
+    'Retry-After',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'X-Request-Id',
+  ],
 }));
-app.use(express.json()); // Parse JSON bodies
-app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
+app.use(express.json({ limit: getLimits().maxBodyBytes })); // Parse JSON bodies
+app.use(express.urlencoded({ extended: true, limit: getLimits().maxBodyBytes })); // Parse URL-encoded bodies
 app.use(morgan('dev')); // HTTP request logging
 app.use(requestLogger); // Custom request logging
 
@@ -34,6 +67,9 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   customfavIcon: '/favicon.ico',
 }));
 
+// Prometheus scrape endpoint, outside /api so it is not rate limited
+app.get('/metrics', requireMetricsToken, asyncHandler(getMetrics));
+
 // Routes
 app.use('/api', routes);
 
@@ -43,11 +79,33 @@ app.get('/', (_req, res) => {
     message: 'Tech Spec Generator API',
     version: '1.0.0',
     documentation: '/api-docs',
+    metrics: '/metrics',
+    limits: getLimits(),
     endpoints: {
       health: '/api/health',
+      liveness: '/api/health/live',
+      readiness: '/api/health/ready',
       saveChat: 'POST /api/chat/save',
+      appendMessages: 'POST /api/chat/:sessionId/messages',
       getChat: 'GET /api/chat/:sessionId',
+      updateChat: 'PATCH /api/chat/:sessionId',
       getAllChats: 'GET /api/chat',
+      getChatSummaries: 'GET /api/chat/summaries',
+      searchChats: 'GET /api/chat/search?q=',
+      deleteChat: 'DELETE /api/chat/:sessionId',
+      getTrash: 'GET /api/chat/trash',
+      restoreChat: 'POST /api/chat/:sessionId/restore',
+      forkChat: 'POST /api/chat/:sessionId/fork',
+      getRedactions: 'GET /api/chat/:sessionId/redactions',
+      listRevisions: 'GET /api/chat/:sessionId/revisions',
+      getRevision: 'GET /api/chat/:sessionId/revisions/:rev',
+      diffRevisions: 'GET /api/chat/:sessionId/diff?from=&to=',
+      bulkDeleteChats: 'POST /api/chat/bulk-delete',
+      importChats: 'POST /api/chat/import',
+      exportChat: 'GET /api/chat/:sessionId/export?format=markdown|html|jsonl|txt',
+      generateSpec: 'POST /api/chat/:sessionId/spec',
+      analytics: 'GET /api/analytics?from=&to=&interval=day|week',
+      retentionDryRun: 'GET /api/admin/retention/dry-run',
     },
   });
 });
@@ -69,6 +127,25 @@ async function startServer() {
     const dbInfo = getDatabaseInfo();
     logger.info({ context: { databaseInfo: dbInfo } }, 'Database configuration loaded');
 
+    // Sessions saved before auth have no owner and stay unreachable until claimed
+    const legacyOwnerId = getLegacyOwnerId();
+    if (legacyOwnerId && dbConnected) {
+      try {
+        await storageService.claimOwnerlessSessions(legacyOwnerId);
+      } catch {
+        logger.warn('Ownerless sessions were not claimed; they will be on the next start');
+      }
+    }
+
+    // Read before listening so an invalid policy stops startup
+    const retentionPolicy = getRetentionPolicy();
+    const redactionConfig = getRedactionConfig();
+    redactionService.configure(redactionConfig);
+    logger.info(
+      { context: { enabled: redactionConfig.enabled, mode: redactionConfig.mode, detectors: redactionConfig.detectors ?? 'all' } },
+      'Redaction configuration loaded'
+    );
+
     // Start HTTP server
     app.listen(PORT, () => {
       logger.info({ context: { port: PORT, frontendUrl: FRONTEND_URL } }, 'Tech Spec Generator API Server started');
@@ -77,6 +154,15 @@ async function startServer() {
       logger.info(`Health check: http://localhost:${PORT}/api/health`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
     });
+
+    // Background jobs
+    scheduler.schedule(createTrashPurgeJob());
+    scheduler.schedule(createRevisionPruneJob());
+    if (retentionPolicy?.enabled) {
+      scheduler.schedule(createRetentionJob(retentionPolicy));
+    } else {
+      logger.info('Data retention is disabled');
+    }
   } catch (error) {
     logger.fatal({ context: { error } }, 'Failed to start server');
     process.exit(1);
@@ -89,12 +175,14 @@ startServer();
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  scheduler.stopAll();
   await disconnectDatabase();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT signal received: closing HTTP server');
+  scheduler.stopAll();
   await disconnectDatabase();
   process.exit(0);
 });
@@ -0,0 +1,16 @@
+import type { ScheduledJob } from './scheduler.js';
+import type { RetentionPolicy } from '../types/index.js';
+import { retentionService } from '../services/retention.service.js';
+
+/**
+ * Deletes or archives sessions that are older than the retention policy allows
+ */
+export function createRetentionJob(policy: RetentionPolicy): ScheduledJob {
+  return {
+    name: 'retention',
+    intervalMs: policy.intervalMinutes * 60 * 1000,
+    async run() {
+      await retentionService.apply(policy);
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import type { ScheduledJob } from './scheduler.js';
+import { getRevisionConfig } from '../config/revisions.js';
+import type { RevisionConfig } from '../config/revisions.js';
+import { storageService } from '../services/storage.service.js';
+
+/**
+ * Drops revisions beyond the newest `limit` of each session
+ */
+export function createRevisionPruneJob(config: RevisionConfig = getRevisionConfig()): ScheduledJob {
+  return {
+    name: 'revision-prune',
+    intervalMs: config.pruneIntervalMinutes * 60 * 1000,
+    async run() {
+      await storageService.pruneRevisions(config.limit);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import logger from '../config/logger.js';
+
+/**
+ * Longest interval setInterval supports; longer ones fire after 1 ms instead
+ */
+export const MAX_INTERVAL_MS = 2 ** 31 - 1;
+
+/**
+ * A recurring background task run inside the API process
+ */
+export interface ScheduledJob {
+  readonly name: string;
+  readonly intervalMs: number;
+  run(): Promise<void>;
+}
+
+/**
+ * In-process job scheduler
+ * Runs each job once at startup and then on its interval. A run is skipped
+ * while the previous one is still in progress, and failures are logged
+ * without stopping the schedule.
+ */
+class Scheduler {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private running = new Set<string>();
+
+  schedule(job: ScheduledJob): void {
+    if (this.timers.has(job.name)) {
+      throw new Error(`Job already scheduled: ${job.name}`);
+    }
+    if (!(job.intervalMs >= 1 && job.intervalMs <= MAX_INTERVAL_MS)) {
+      throw new Error(`Job interval must be between 1 and ${MAX_INTERVAL_MS} ms: ${job.name}`);
+    }
+
+    const tick = () => {
+      void this.runOnce(job);
+    };
+
+    // Timers must not keep the process alive during shutdown
+    const timer = setInterval(tick, job.intervalMs);
+    timer.unref();
+    this.timers.set(job.name, timer);
+
+    logger.info({ context: { job: job.name, intervalMs: job.intervalMs } }, 'Scheduled job');
+    tick();
+  }
+
+  /**
+   * Run a job immediately, unless it is already running.
+   * Returns false when the run was skipped.
+   */
+  async runOnce(job: ScheduledJob): Promise<boolean> {
+    if (this.running.has(job.name)) {
+      logger.warn({ context: { job: job.name } }, 'Previous job run still in progress, skipping');
+      return false;
+    }
+
+    this.running.add(job.name);
+    const startedAt = Date.now();
+
+    try {
+      await job.run();
+      logger.debug({ context: { job: job.name, durationMs: Date.now() - startedAt } }, 'Job completed');
+    } catch (error) {
+      logger.error({ context: { job: job.name, error } }, 'Job failed');
+    } finally {
+      this.running.delete(job.name);
+    }
+    return true;
+  }
+
+  stopAll(): void {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+  }
+}
+
+// Export singleton instance
+export const scheduler = new Scheduler();
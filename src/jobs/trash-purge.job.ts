@@ -0,0 +1,20 @@
+import type { ScheduledJob } from './scheduler.js';
+import { getTrashConfig } from '../config/trash.js';
+import type { TrashConfig } from '../config/trash.js';
+import { storageService } from '../services/storage.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently removes sessions that have been in the trash longer than the
+ * retention period
+ */
+export function createTrashPurgeJob(config: TrashConfig = getTrashConfig()): ScheduledJob {
+  return {
+    name: 'trash-purge',
+    intervalMs: config.purgeIntervalMinutes * 60 * 1000,
+    async run() {
+      await storageService.purgeTrash(new Date(Date.now() - config.retentionDays * DAY_MS));
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+type AsyncRequestHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
+
+/**
+ * Async handler wrapper
+ * Express 4 ignores rejected promises from handlers, so pass them to
+ * errorHandler instead; handlers just throw AppErrors.
+ */
+export const asyncHandler = (handler: AsyncRequestHandler): RequestHandler => {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+};
@@ -0,0 +1,61 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { PrincipalRole } from '../types/index.js';
+import { authService } from '../services/auth.service.js';
+import logger from '../config/logger.js';
+import { ForbiddenError, UnauthorizedError, sendError } from '../errors/index.js';
+
+/**
+ * Read the credential from `Authorization: Bearer <token>` or `X-API-Key: <key>`
+ */
+function getCredential(req: Request): string | null {
+  const authorization = req.get('Authorization');
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    return match ? match[1] : null;
+  }
+  return req.get('X-API-Key') ?? null;
+}
+
+/**
+ * Authentication middleware
+ * Rejects requests without a valid API key or JWT and sets req.principal
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  const credential = getCredential(req);
+
+  if (!credential) {
+    res.set('WWW-Authenticate', 'Bearer');
+    sendError(res, new UnauthorizedError('Missing API key or bearer token'));
+    return;
+  }
+
+  try {
+    const principal = await authService.authenticate(credential);
+
+    if (!principal) {
+      res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+      sendError(res, new UnauthorizedError('Invalid API key or bearer token'));
+      return;
+    }
+
+    req.principal = principal;
+    next();
+  } catch (error) {
+    logger.error({ context: { error } }, 'Authentication failed');
+    next(error);
+  }
+};
+
+/**
+ * Authorization middleware
+ * Must run after authenticate; rejects principals without the given role
+ */
+export const requireRole = (role: PrincipalRole) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.principal?.role !== role) {
+      sendError(res, new ForbiddenError(`Requires the ${role} role`));
+      return;
+    }
+    next();
+  };
+};
@@ -1,25 +1,82 @@
 import type { Request, Response, NextFunction } from 'express';
 import logger from '../config/logger.js';
+import { AppError, PayloadTooLargeError, ValidationError, sendError } from '../errors/index.js';
+import type { ErrorResponse } from '../errors/index.js';
+
+export { asyncHandler } from './async-handler.js';
+export { authenticate, requireRole } from './auth.js';
+export { httpMetrics, requireMetricsToken } from './metrics.js';
+export { rateLimit, byClientAddress, MemoryRateLimitStore } from './rate-limit.js';
+export { requestContext, REQUEST_ID_HEADER } from './request-context.js';
+export type { RateLimitStore, RateLimitHit, RateLimitOptions } from './rate-limit.js';
+export { validate, validateSchema, validateMessageLimits, limitMessages } from './validation.js';
+export type { ValidationErrorDetail } from './validation.js';
+
+/**
+ * Error raised by express.json() for bodies it rejects
+ */
+interface BodyParserError extends Error {
+  type?: string;
+  limit?: number;
+}
+
+/**
+ * Map body parser failures to their AppError; other errors pass through
+ */
+function toAppError(err: BodyParserError): AppError | null {
+  if (err instanceof AppError) {
+    return err;
+  }
+  if (err.type === 'entity.too.large') {
+    return new PayloadTooLargeError(`Request body must be at most ${err.limit} bytes`);
+  }
+  if (err.type === 'entity.parse.failed') {
+    return new ValidationError('Request body is not valid JSON');
+  }
+  return null;
+}
 
 /**
  * Error handling middleware
+ * Sends AppErrors with their status and code; anything else is a 500.
  */
 export const errorHandler = (
-  err: Error,
+  err: BodyParserError,
   req: Request,
   res: Response,
-  _next: NextFunction
+  next: NextFunction
 ) => {
+  // Too late for an error body; let Express close the connection
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  const error = toAppError(err);
+
+  if (error) {
+    if (error.status >= 500) {
+      logger.error({ context: { code: error.code, error: error.message, method: req.method, path: req.path } }, 'Request error');
+    } else if (error instanceof PayloadTooLargeError) {
+      logger.warn({ context: { method: req.method, path: req.path, limit: err.limit } }, 'Request body too large');
+    }
+    sendError(res, error);
+    return;
+  }
+
   logger.error(
     { context: { error: err.message, stack: err.stack, method: req.method, path: req.path } },
     'Request error'
   );
 
-  res.status(500).json({
+  const body: ErrorResponse = {
     success: false,
     error: 'Internal server error',
+    code: 'INTERNAL_ERROR',
     message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong',
-  });
+    requestId: req.requestId,
+  };
+  res.status(500).json(body);
 };
 
 /**
@@ -0,0 +1,53 @@
+import type { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { getMetricsToken, httpRequestDuration, httpRequestsTotal } from '../config/metrics.js';
+import { UnauthorizedError, sendError } from '../errors/index.js';
+
+/**
+ * Route label for a finished request: the matched route pattern (e.g.
+ * /api/chat/:sessionId), never the raw path, so label values stay bounded.
+ * Requests answered before reaching a route (unknown paths, router-level
+ * auth or rate limit rejections) are labelled "unmatched".
+ */
+function routeLabel(req: Request): string {
+  const path = req.route?.path;
+  return typeof path === 'string' ? `${req.baseUrl}${path}` : 'unmatched';
+}
+
+/**
+ * HTTP metrics middleware
+ * Counts every request and observes its latency by method, route and status.
+ * Mount before the routes so all requests are timed.
+ */
+export const httpMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const labels = { method: req.method, route: routeLabel(req), status: String(res.statusCode) };
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  });
+
+  next();
+};
+
+/**
+ * Require the METRICS_TOKEN bearer token when one is configured
+ */
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction) => {
+  const token = getMetricsToken();
+  if (!token) {
+    next();
+    return;
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.get('Authorization') ?? '');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    res.set('WWW-Authenticate', 'Bearer');
+    sendError(res, new UnauthorizedError('Missing or invalid metrics token'));
+    return;
+  }
+
+  next();
+};
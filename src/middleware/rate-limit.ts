@@ -0,0 +1,142 @@
+import type { Request, Response, NextFunction } from 'express';
+import { getRateLimitRule, isRateLimitEnabled } from '../config/rate-limit.js';
+import type { RateLimitRule } from '../config/rate-limit.js';
+import logger from '../config/logger.js';
+import { RateLimitError, sendError } from '../errors/index.js';
+
+/**
+ * Request counter for one key in the current window
+ */
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Where request counts are kept. The in-memory store only limits a single
+ * process; implement this interface over a shared backend (e.g. Redis) to
+ * limit across instances.
+ */
+export interface RateLimitStore {
+  /**
+   * Count one request for key. Starts a new window of windowMs when the key
+   * has none or its window has ended.
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  /** Forget a key's count */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Fixed-window counters kept in process memory
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits = new Map<string, RateLimitHit>();
+  private nextSweep = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.sweep(now, windowMs);
+
+    let hit = this.hits.get(key);
+    if (!hit || hit.resetAt.getTime() <= now) {
+      hit = { count: 0, resetAt: new Date(now + windowMs) };
+      this.hits.set(key, hit);
+    }
+    hit.count++;
+
+    return { ...hit };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  /**
+   * Drop expired windows at most once per window so idle keys do not pile up
+   */
+  private sweep(now: number, windowMs: number): void {
+    if (now < this.nextSweep) {
+      return;
+    }
+    for (const [key, hit] of this.hits) {
+      if (hit.resetAt.getTime() <= now) {
+        this.hits.delete(key);
+      }
+    }
+    this.nextSweep = now + windowMs;
+  }
+}
+
+export interface RateLimitOptions extends RateLimitRule {
+  /** Limiter name, used in keys and for the RATE_LIMIT_<NAME> override */
+  name: string;
+  /** Client key; defaults to the authenticated principal, else the client IP */
+  keyGenerator?: (req: Request) => string;
+  store?: RateLimitStore;
+}
+
+/**
+ * Key requests by client IP, even when authenticated
+ */
+export function byClientAddress(req: Request): string {
+  return `ip:${req.ip}`;
+}
+
+function defaultKey(req: Request): string {
+  return req.principal ? `principal:${req.principal.id}` : byClientAddress(req);
+}
+
+/**
+ * Rate limiting middleware
+ * Allows options.limit requests per client per window and answers the rest
+ * with 429 and Retry-After. Every response carries RateLimit-* headers.
+ * Store errors let the request through rather than failing it.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const { name, keyGenerator = defaultKey, store = new MemoryRateLimitStore() } = options;
+  // Resolved on the first request, after dotenv has loaded
+  let settings: { enabled: boolean; rule: RateLimitRule } | null = null;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    settings ??= {
+      enabled: isRateLimitEnabled(),
+      rule: getRateLimitRule(name, { limit: options.limit, windowMs: options.windowMs }),
+    };
+    if (!settings.enabled) {
+      next();
+      return;
+    }
+
+    const { limit, windowMs } = settings.rule;
+    let hit: RateLimitHit;
+    try {
+      hit = await store.increment(`${name}:${keyGenerator(req)}`, windowMs);
+    } catch (error) {
+      logger.error({ context: { limiter: name, error } }, 'Rate limit store failed');
+      next();
+      return;
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+    res.set({
+      'RateLimit-Limit': String(limit),
+      'RateLimit-Remaining': String(Math.max(0, limit - hit.count)),
+      'RateLimit-Reset': String(resetSeconds),
+      'RateLimit-Policy': `${limit};w=${Math.ceil(windowMs / 1000)}`,
+    });
+
+    if (hit.count > limit) {
+      res.set('Retry-After', String(resetSeconds));
+      sendError(
+        res,
+        new RateLimitError(
+          `Rate limit of ${limit} requests per ${Math.ceil(windowMs / 1000)} seconds exceeded; retry in ${resetSeconds} seconds`
+        )
+      );
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,25 @@
+import type { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { runWithRequestContext } from '../config/request-context.js';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Client-supplied IDs are echoed into headers and logs, so only accept short, plain tokens
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Request context middleware
+ * Uses the caller's X-Request-Id when it is a valid token, otherwise creates
+ * one; sets req.requestId, echoes the ID in the response header and runs the
+ * rest of the chain in a request context so log lines carry it.
+ * Mount first so every later middleware and handler sees the context.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+  req.requestId = requestId;
+  res.set(REQUEST_ID_HEADER, requestId);
+
+  runWithRequestContext({ requestId }, next);
+};
@@ -0,0 +1,281 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { Message, RequestLimits } from '../types/index.js';
+import { schemas, parameterSchemas } from '../config/schemas.js';
+import type { JsonSchema } from '../config/schemas.js';
+import { getLimits } from '../config/limits.js';
+import { ValidationError, sendError } from '../errors/index.js';
+
+export interface ValidationErrorDetail {
+  path: string;
+  message: string;
+}
+
+type RequestPart = 'body' | 'query' | 'params';
+
+// RFC 3339 date-time, e.g. 2024-01-01T00:00:00.000Z or 2024-01-01T00:00:00+02:00
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Look up a named schema or resolve a '#/components/schemas/Name' reference
+ */
+function resolveSchema(ref: string): JsonSchema {
+  const name = ref.split('/').pop()!;
+  const schema = schemas[name] ?? parameterSchemas[name];
+  if (!schema) {
+    throw new Error(`Unknown schema: ${ref}`);
+  }
+  return schema;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Convert a query string or path value to the scalar type the schema expects
+ */
+function coerce(schema: JsonSchema, value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if ((schema.type === 'integer' || schema.type === 'number') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (schema.type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+/**
+ * Validate a value against a schema, collecting every problem into errors.
+ * Returns the value, with query/path scalars coerced when coerceScalars is set.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  errors: ValidationErrorDetail[],
+  coerceScalars = false
+): unknown {
+  if (schema.$ref) {
+    return validateSchema(resolveSchema(schema.$ref), value, path, errors, coerceScalars);
+  }
+
+  if (schema.allOf) {
+    return schema.allOf.reduce(
+      (current, subschema) => validateSchema(subschema, current, path, errors, coerceScalars),
+      value
+    );
+  }
+
+  if (value === null && schema.nullable) {
+    return value;
+  }
+
+  const input = coerceScalars ? coerce(schema, value) : value;
+
+  if (schema.type && !matchesType(schema.type, input)) {
+    errors.push({ path, message: `must be of type ${schema.type}` });
+    return input;
+  }
+
+  if (schema.enum && !schema.enum.includes(input)) {
+    errors.push({ path, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof input === 'string') {
+    if (schema.minLength !== undefined && input.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && input.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(input)) {
+      errors.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+    if (
+      schema.format === 'date-time' &&
+      (!DATE_TIME_PATTERN.test(input) || Number.isNaN(new Date(input).getTime()))
+    ) {
+      errors.push({ path, message: 'must be an ISO 8601 date-time' });
+    }
+  }
+
+  if (typeof input === 'number') {
+    if (schema.minimum !== undefined && input < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && input > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(input)) {
+    if (schema.minItems !== undefined && input.length < schema.minItems) {
+      errors.push({ path, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && input.length > schema.maxItems) {
+      errors.push({ path, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      return input.map((item, index) =>
+        validateSchema(schema.items!, item, `${path}[${index}]`, errors, coerceScalars)
+      );
+    }
+  }
+
+  if (
+    typeOf(input) === 'object' &&
+    (schema.properties ||
+      schema.required ||
+      schema.minProperties !== undefined ||
+      schema.maxProperties !== undefined ||
+      schema.propertyNames ||
+      typeof schema.additionalProperties === 'object')
+  ) {
+    const object = input as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...object };
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+
+    if (schema.minProperties !== undefined && Object.keys(object).length < schema.minProperties) {
+      errors.push({
+        path,
+        message: `must have at least ${schema.minProperties} ${schema.minProperties === 1 ? 'property' : 'properties'}`,
+      });
+    }
+
+    if (schema.maxProperties !== undefined && Object.keys(object).length > schema.maxProperties) {
+      errors.push({
+        path,
+        message: `must have at most ${schema.maxProperties} ${schema.maxProperties === 1 ? 'property' : 'properties'}`,
+      });
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (schema.propertyNames) {
+        const nameErrors: ValidationErrorDetail[] = [];
+        validateSchema(schema.propertyNames, key, `${path}.${key}`, nameErrors);
+        if (nameErrors.length > 0) {
+          errors.push({ path: `${path}.${key}`, message: `is not an allowed name: ${nameErrors[0].message}` });
+          continue;
+        }
+      }
+
+      const propertySchema =
+        schema.properties?.[key] ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+      if (propertySchema) {
+        result[key] = validateSchema(propertySchema, propertyValue, `${path}.${key}`, errors, coerceScalars);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      }
+    }
+
+    return result;
+  }
+
+  return input;
+}
+
+/**
+ * Check messages against the size limits, collecting every problem into errors.
+ * existing describes the messages already stored in the session they are added to.
+ */
+export function validateMessageLimits(
+  messages: Message[],
+  path: string,
+  errors: ValidationErrorDetail[],
+  limits: RequestLimits,
+  existing: { count: number; chars: number } = { count: 0, chars: 0 }
+): void {
+  if (existing.count + messages.length > limits.maxMessagesPerSession) {
+    errors.push({
+      path,
+      message: `would bring the session to ${existing.count + messages.length} messages, more than the limit of ${limits.maxMessagesPerSession}`,
+    });
+  }
+
+  let chars = existing.chars;
+  messages.forEach((message, index) => {
+    chars += message.content.length;
+    if (message.content.length > limits.maxMessageChars) {
+      errors.push({
+        path: `${path}[${index}].content`,
+        message: `must be at most ${limits.maxMessageChars} characters`,
+      });
+    }
+  });
+
+  if (chars > limits.maxSessionChars) {
+    errors.push({
+      path,
+      message: `would bring the session to ${chars} characters, more than the limit of ${limits.maxSessionChars}`,
+    });
+  }
+}
+
+function sendValidationErrors(res: Response, errors: ValidationErrorDetail[]): void {
+  sendError(res, new ValidationError(errors.map(error => `${error.path} ${error.message}`).join('; '), errors));
+}
+
+/**
+ * Request validation middleware
+ * Validates body, query and path parameters against named schemas from
+ * src/config/schemas.ts and responds 400 with every problem found.
+ * Query and path values are coerced to the schema's scalar types.
+ */
+export const validate = (targets: Partial<Record<RequestPart, string>>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors: ValidationErrorDetail[] = [];
+
+    for (const part of Object.keys(targets) as RequestPart[]) {
+      const value = validateSchema(
+        resolveSchema(targets[part]!),
+        req[part] ?? {},
+        part,
+        errors,
+        part !== 'body'
+      );
+      if (part !== 'body') {
+        req[part] = value as any;
+      }
+    }
+
+    if (errors.length > 0) {
+      sendValidationErrors(res, errors);
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Message limits middleware
+ * Must run after validate(); checks body.messages against the configured
+ * message count and character limits and responds 400 when they are exceeded.
+ */
+export const limitMessages = (req: Request, res: Response, next: NextFunction) => {
+  const errors: ValidationErrorDetail[] = [];
+  validateMessageLimits((req.body as { messages: Message[] }).messages, 'body.messages', errors, getLimits());
+
+  if (errors.length > 0) {
+    sendValidationErrors(res, errors);
+    return;
+  }
+
+  next();
+};
@@ -1,32 +1,250 @@
 import { Router } from 'express';
 import {
   saveChatSession,
+  appendChatMessages,
   getChatSession,
+  updateChatSession,
   getAllChatSessions,
-  healthCheck,
+  getChatSessionSummaries,
+  searchChatSessions,
+  getTrashedChatSessions,
+  restoreChatSession,
+  forkChatSession,
+  getChatSessionRedactions,
+  deleteChatSession,
+  bulkDeleteChatSessions,
 } from '../controllers/chat.controller.js';
+import { healthCheck, getLiveness, getReadiness } from '../controllers/health.controller.js';
+import { generateTechSpec } from '../controllers/spec.controller.js';
+import { exportChatSession } from '../controllers/export.controller.js';
+import { importChatSessions } from '../controllers/import.controller.js';
+import { listChatRevisions, getChatRevision, diffChatRevisions } from '../controllers/revision.controller.js';
+import { getRetentionDryRun } from '../controllers/admin.controller.js';
+import { getAnalytics } from '../controllers/analytics.controller.js';
+import {
+  asyncHandler,
+  authenticate,
+  byClientAddress,
+  limitMessages,
+  rateLimit,
+  requireRole,
+  validate,
+} from '../middleware/index.js';
 
 const router = Router();
 
+// Every route with input validates it against the schemas in src/config/schemas.ts
+// Handlers are wrapped in asyncHandler so the AppErrors they throw reach errorHandler
+
+// Per-client request limits; each can be overridden with RATE_LIMIT_<NAME>=<limit>/<windowSeconds>
+const MINUTE = 60_000;
+// Runs before authenticate and counts by IP, so guessing credentials is throttled too
+const authLimit = rateLimit({ name: 'auth', limit: 600, windowMs: MINUTE, keyGenerator: byClientAddress });
+const chatLimit = rateLimit({ name: 'chat', limit: 300, windowMs: MINUTE });
+// Shared by every route that writes sessions
+const saveLimit = rateLimit({ name: 'save', limit: 60, windowMs: MINUTE });
+const importLimit = rateLimit({ name: 'import', limit: 10, windowMs: MINUTE });
+const specLimit = rateLimit({ name: 'spec', limit: 10, windowMs: MINUTE });
+const analyticsLimit = rateLimit({ name: 'analytics', limit: 30, windowMs: MINUTE });
+
 /**
  * Health check route
  */
-router.get('/health', healthCheck);
+router.get('/health', asyncHandler(healthCheck));
+
+/**
+ * Liveness and readiness probes for orchestrators; neither is authenticated or rate limited
+ */
+router.get('/health/live', asyncHandler(getLiveness));
+router.get('/health/ready', asyncHandler(getReadiness));
+
+/**
+ * All chat routes require an API key or bearer token and are rate limited per IP, then per principal
+ */
+router.use('/chat', authLimit, authenticate, chatLimit);
+
+/**
+ * Usage statistics over the caller's sessions (or every session for admins)
+ */
+router.get(
+  '/analytics',
+  authLimit,
+  authenticate,
+  analyticsLimit,
+  validate({ query: 'AnalyticsQuery' }),
+  asyncHandler(getAnalytics)
+);
+
+/**
+ * Admin routes additionally require the admin role
+ */
+router.use('/admin', authLimit, authenticate, requireRole('admin'));
+
+/**
+ * Preview what the retention policy would remove
+ */
+router.get('/admin/retention/dry-run', asyncHandler(getRetentionDryRun));
 
 /**
  * Save a chat session
  */
-router.post('/chat/save', saveChatSession);
+router.post(
+  '/chat/save',
+  saveLimit,
+  validate({ body: 'SaveChatRequest' }),
+  limitMessages,
+  asyncHandler(saveChatSession)
+);
+
+/**
+ * Import chat sessions from a streamed JSONL upload
+ */
+router.post(
+  '/chat/import',
+  importLimit,
+  validate({ query: 'ImportSessionsQuery' }),
+  asyncHandler(importChatSessions)
+);
+
+/**
+ * Delete many chat sessions by ID or timestamp cutoff
+ */
+router.post(
+  '/chat/bulk-delete',
+  saveLimit,
+  validate({ body: 'BulkDeleteRequest' }),
+  asyncHandler(bulkDeleteChatSessions)
+);
+
+/**
+ * Get chat session summaries (must precede /chat/:sessionId)
+ */
+router.get(
+  '/chat/summaries',
+  validate({ query: 'ListSessionsQuery' }),
+  asyncHandler(getChatSessionSummaries)
+);
+
+/**
+ * List chat sessions in the trash (must precede /chat/:sessionId)
+ */
+router.get('/chat/trash', validate({ query: 'ListSessionsQuery' }), asyncHandler(getTrashedChatSessions));
+
+/**
+ * Full-text search across chat sessions (must precede /chat/:sessionId)
+ */
+router.get('/chat/search', validate({ query: 'SearchSessionsQuery' }), asyncHandler(searchChatSessions));
 
 /**
  * Get a specific chat session
  */
-router.get('/chat/:sessionId', getChatSession);
+router.get('/chat/:sessionId', validate({ params: 'SessionIdParams' }), asyncHandler(getChatSession));
+
+/**
+ * Update the title, tags or metadata of a chat session
+ */
+router.patch(
+  '/chat/:sessionId',
+  saveLimit,
+  validate({ params: 'SessionIdParams', body: 'UpdateSessionRequest' }),
+  asyncHandler(updateChatSession)
+);
+
+/**
+ * Delete a specific chat session
+ */
+router.delete('/chat/:sessionId', saveLimit, validate({ params: 'SessionIdParams' }), asyncHandler(deleteChatSession));
+
+/**
+ * Append messages to a chat session
+ */
+router.post(
+  '/chat/:sessionId/messages',
+  saveLimit,
+  validate({ params: 'SessionIdParams', body: 'AppendMessagesRequest' }),
+  limitMessages,
+  asyncHandler(appendChatMessages)
+);
+
+/**
+ * Fork a chat session from one of its messages
+ */
+router.post(
+  '/chat/:sessionId/fork',
+  saveLimit,
+  validate({ params: 'SessionIdParams', body: 'ForkSessionRequest' }),
+  asyncHandler(forkChatSession)
+);
+
+/**
+ * Restore a chat session from the trash
+ */
+router.post(
+  '/chat/:sessionId/restore',
+  saveLimit,
+  validate({ params: 'SessionIdParams' }),
+  asyncHandler(restoreChatSession)
+);
+
+/**
+ * List the saved revisions of a chat session
+ */
+router.get(
+  '/chat/:sessionId/revisions',
+  validate({ params: 'SessionIdParams' }),
+  asyncHandler(listChatRevisions)
+);
+
+/**
+ * Get one saved revision of a chat session
+ */
+router.get(
+  '/chat/:sessionId/revisions/:rev',
+  validate({ params: 'RevisionParams' }),
+  asyncHandler(getChatRevision)
+);
+
+/**
+ * Compare two revisions of a chat session
+ */
+router.get(
+  '/chat/:sessionId/diff',
+  validate({ params: 'SessionIdParams', query: 'DiffRevisionsQuery' }),
+  asyncHandler(diffChatRevisions)
+);
+
+/**
+ * Get what was redacted from a chat session before it was stored
+ */
+router.get(
+  '/chat/:sessionId/redactions',
+  validate({ params: 'SessionIdParams' }),
+  asyncHandler(getChatSessionRedactions)
+);
+
+/**
+ * Export a chat session transcript as a file
+ */
+router.get(
+  '/chat/:sessionId/export',
+  validate({ params: 'SessionIdParams', query: 'ExportSessionQuery' }),
+  asyncHandler(exportChatSession)
+);
+
+/**
+ * Generate a tech spec from a chat session
+ */
+router.post(
+  '/chat/:sessionId/spec',
+  specLimit,
+  validate({ params: 'SessionIdParams' }),
+  asyncHandler(generateTechSpec)
+);
 
 /**
  * Get all chat sessions
  */
-router.get('/chat', getAllChatSessions);
+router.get('/chat', validate({ query: 'ListSessionsQuery' }), asyncHandler(getAllChatSessions));
 
 export default router;
 
@@ -0,0 +1,139 @@
+import { Prisma } from '@prisma/client';
+import type { AnalyticsOptions, AnalyticsReport } from '../types/index.js';
+import { prisma, databaseError } from '../config/database.js';
+import logger from '../config/logger.js';
+
+// Interval names are whitelisted here because they are interpolated into raw SQL
+const INTERVALS: Record<AnalyticsOptions['interval'], { unit: Prisma.Sql; step: Prisma.Sql }> = {
+  day: { unit: Prisma.raw(`'day'`), step: Prisma.raw(`interval '1 day'`) },
+  week: { unit: Prisma.raw(`'week'`), step: Prisma.raw(`interval '1 week'`) },
+};
+
+/**
+ * Common table expression `in_range` selecting the sessions the report covers
+ */
+function sessionsInRange(options: AnalyticsOptions): Prisma.Sql {
+  return Prisma.sql`
+    in_range AS (
+      SELECT "sessionId", "timestamp", "updatedAt", "metadata"
+      FROM "chat_sessions"
+      WHERE "deletedAt" IS NULL
+      ${options.ownerId === undefined ? Prisma.empty : Prisma.sql`AND "ownerId" = ${options.ownerId}`}
+      ${options.from ? Prisma.sql`AND "timestamp" >= ${options.from}` : Prisma.empty}
+      ${options.to ? Prisma.sql`AND "timestamp" <= ${options.to}` : Prisma.empty}
+    )
+  `;
+}
+
+/**
+ * Round to two decimals so averages and ratios read cleanly
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Analytics service
+ * Computes usage statistics with SQL aggregates; transcripts are never loaded
+ */
+class AnalyticsService {
+  async getReport(options: AnalyticsOptions): Promise<AnalyticsReport> {
+    const inRange = sessionsInRange(options);
+    const { unit, step } = INTERVALS[options.interval];
+
+    try {
+      const [perSession, byRole, perPeriod, clientVersions] = await Promise.all([
+        prisma.$queryRaw<Array<{ sessions: number; average: number; p50: number; p95: number }>>`
+          WITH ${inRange},
+          counts AS (
+            SELECT count(m."id") AS messages
+            FROM in_range s
+            LEFT JOIN "chat_messages" m ON m."sessionId" = s."sessionId"
+            GROUP BY s."sessionId"
+          )
+          SELECT
+            count(*)::int AS sessions,
+            COALESCE(avg(messages), 0)::float8 AS average,
+            COALESCE(percentile_cont(0.5) WITHIN GROUP (ORDER BY messages), 0)::float8 AS p50,
+            COALESCE(percentile_cont(0.95) WITHIN GROUP (ORDER BY messages), 0)::float8 AS p95
+          FROM counts
+        `,
+        prisma.$queryRaw<Array<{ role: string; messages: number; chars: number }>>`
+          WITH ${inRange}
+          SELECT m."role", count(*)::int AS messages, sum(char_length(m."content"))::float8 AS chars
+          FROM "chat_messages" m
+          JOIN in_range s ON s."sessionId" = m."sessionId"
+          GROUP BY m."role"
+        `,
+        prisma.$queryRaw<Array<{ period: string; sessions: number }>>`
+          WITH ${inRange},
+          buckets AS (
+            SELECT date_trunc(${unit}, "timestamp") AS period, count(*)::int AS sessions
+            FROM in_range
+            GROUP BY 1
+          ),
+          series AS (
+            SELECT period
+            FROM (SELECT min(period) AS first, max(period) AS last FROM buckets) bounds,
+              generate_series(bounds.first, bounds.last, ${step}) AS period
+          )
+          SELECT to_char(series.period, 'YYYY-MM-DD') AS period, COALESCE(buckets.sessions, 0) AS sessions
+          FROM series
+          LEFT JOIN buckets ON buckets.period = series.period
+          ORDER BY series.period
+        `,
+        prisma.$queryRaw<Array<{ clientVersion: string; sessions: number; lastActivity: Date }>>`
+          WITH ${inRange}
+          SELECT "metadata"->>'clientVersion' AS "clientVersion", count(*)::int AS sessions, max("updatedAt") AS "lastActivity"
+          FROM in_range
+          WHERE "metadata"->>'clientVersion' IS NOT NULL
+          GROUP BY 1
+          ORDER BY sessions DESC, 1
+        `,
+      ]);
+
+      const role = (name: string) => byRole.find(row => row.role === name) ?? { messages: 0, chars: 0 };
+      const user = role('user');
+      const model = role('model');
+      const totalMessages = user.messages + model.messages;
+      const average = (chars: number, messages: number) => (messages > 0 ? round(chars / messages) : 0);
+
+      return {
+        from: options.from?.toISOString() ?? null,
+        to: options.to?.toISOString() ?? null,
+        interval: options.interval,
+        sessions: {
+          total: perSession[0].sessions,
+          perPeriod,
+        },
+        messagesPerSession: {
+          average: round(perSession[0].average),
+          p50: round(perSession[0].p50),
+          p95: round(perSession[0].p95),
+        },
+        messages: {
+          total: totalMessages,
+          user: user.messages,
+          model: model.messages,
+          userToModelRatio: model.messages > 0 ? round(user.messages / model.messages) : null,
+        },
+        averageContentLength: {
+          all: average(user.chars + model.chars, totalMessages),
+          user: average(user.chars, user.messages),
+          model: average(model.chars, model.messages),
+        },
+        clientVersions: clientVersions.map(row => ({
+          clientVersion: row.clientVersion,
+          sessions: row.sessions,
+          lastActivity: row.lastActivity.toISOString(),
+        })),
+      };
+    } catch (error) {
+      logger.error({ context: { options, error } }, 'Failed to compute analytics');
+      throw databaseError('Failed to compute chat analytics', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const analyticsService = new AnalyticsService();
@@ -0,0 +1,170 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { Principal, PrincipalRole } from '../types/index.js';
+import { secretsService } from './secrets.service.js';
+import logger from '../config/logger.js';
+
+/**
+ * Authentication service
+ *
+ * Resolves bearer credentials to a Principal. Two credential types are supported:
+ * - API keys, from the API_KEYS secret: comma-separated `key:principalId[:role]` entries
+ * - HS256 JWTs signed with the JWT_SECRET secret, using `sub` as the principal ID
+ *   and an optional `role` claim
+ *
+ * Secrets are loaded via secretsService and re-read every few minutes so rotated
+ * keys are picked up without a restart. A reload that finds no credentials (for
+ * example because Secret Manager failed) keeps the last good ones and is retried
+ * sooner.
+ */
+
+const CONFIG_TTL_MS = 5 * 60 * 1000;
+const RETRY_MS = 30 * 1000;
+
+interface AuthConfig {
+  apiKeys: Map<string, Omit<Principal, 'method'>>;
+  jwtSecret: string | null;
+  expiresAt: number;
+}
+
+interface JwtClaims {
+  sub?: unknown;
+  role?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toRole(value: unknown): PrincipalRole {
+  return value === 'admin' ? 'admin' : 'user';
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the API_KEYS secret into a map of key hash -> principal
+ */
+export function parseApiKeys(value: string | null): AuthConfig['apiKeys'] {
+  const apiKeys: AuthConfig['apiKeys'] = new Map();
+
+  for (const entry of (value ?? '').split(',')) {
+    const [key, id, role] = entry.trim().split(':');
+    if (!key || !id) {
+      continue;
+    }
+    // Keys are stored hashed so lookups do not compare raw secrets
+    apiKeys.set(hashKey(key), { id, role: toRole(role) });
+  }
+
+  return apiKeys;
+}
+
+/**
+ * Verify an HS256 JWT and return its claims, or null if the signature,
+ * algorithm or validity window is wrong
+ */
+export function verifyJwt(token: string, secret: string, now: number = Date.now()): JwtClaims | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return null;
+  }
+
+  if (decodeSegment<{ alg?: string }>(header)?.alg !== 'HS256') {
+    return null;
+  }
+
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const claims = decodeSegment<JwtClaims>(payload);
+  if (!claims) {
+    return null;
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (typeof claims.exp === 'number' && nowSeconds >= claims.exp) {
+    return null;
+  }
+  if (typeof claims.nbf === 'number' && nowSeconds < claims.nbf) {
+    return null;
+  }
+
+  return claims;
+}
+
+class AuthService {
+  private config: AuthConfig | null = null;
+
+  /**
+   * Resolve a bearer credential (API key or JWT) to a principal
+   */
+  async authenticate(credential: string): Promise<Principal | null> {
+    const config = await this.getConfig();
+
+    const keyPrincipal = config.apiKeys.get(hashKey(credential));
+    if (keyPrincipal) {
+      return { ...keyPrincipal, method: 'api-key' };
+    }
+
+    if (config.jwtSecret && credential.split('.').length === 3) {
+      const claims = verifyJwt(credential, config.jwtSecret);
+      if (claims && typeof claims.sub === 'string' && claims.sub.length > 0) {
+        return { id: claims.sub, role: toRole(claims.role), method: 'jwt' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Drop cached credentials so the next request reloads them
+   */
+  clearCache(): void {
+    this.config = null;
+  }
+
+  private async getConfig(): Promise<AuthConfig> {
+    if (this.config && Date.now() < this.config.expiresAt) {
+      return this.config;
+    }
+
+    // Bypass the secrets cache, which never expires, so rotations are seen
+    const { API_KEYS: apiKeys, JWT_SECRET: jwtSecret } = await secretsService.getSecrets(
+      ['API_KEYS', 'JWT_SECRET'],
+      { fresh: true }
+    );
+    const loaded: AuthConfig = {
+      apiKeys: parseApiKeys(apiKeys),
+      jwtSecret,
+      expiresAt: Date.now() + CONFIG_TTL_MS,
+    };
+
+    if (loaded.apiKeys.size > 0 || loaded.jwtSecret) {
+      this.config = loaded;
+      return loaded;
+    }
+
+    // Empty loads are not cached, so credentials work again as soon as they can be read
+    if (this.config) {
+      logger.warn('No API_KEYS or JWT_SECRET could be loaded; keeping the previous credentials');
+      this.config.expiresAt = Date.now() + RETRY_MS;
+      return this.config;
+    }
+    logger.warn('No API_KEYS or JWT_SECRET configured; all authenticated requests will be rejected');
+    return loaded;
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
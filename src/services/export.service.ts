@@ -0,0 +1,208 @@
+import type { ChatSession, ExportFormat, Message } from '../types/index.js';
+
+/**
+ * A rendered transcript, ready to be sent as a download
+ */
+export interface ExportedDocument {
+  contentType: string;
+  filename: string;
+  body: string;
+}
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'User',
+  model: 'Assistant',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  jsonl: 'jsonl',
+  txt: 'txt',
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+};
+
+// Print styles so the HTML export can be saved as PDF from a browser
+const HTML_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.5; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  article { margin-bottom: 1.5rem; }
+  article h2 { font-size: 1rem; margin-bottom: 0.25rem; }
+  article time { color: #656d76; font-size: 0.85rem; font-weight: normal; margin-left: 0.5rem; }
+  article pre { white-space: pre-wrap; word-wrap: break-word; font-family: inherit; margin: 0; }
+  .message-user h2 { color: #0969da; }
+  .message-model h2 { color: #8250df; }
+  @page { margin: 2cm; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    article { break-inside: avoid; page-break-inside: avoid; }
+  }
+`;
+
+/**
+ * Metadata shown at the top of every export, in display order
+ */
+function frontMatter(session: ChatSession): Array<[string, string | number]> {
+  const fields: Array<[string, string | number | undefined]> = [
+    ['sessionId', session.sessionId],
+    ['title', session.title ?? undefined],
+    ['tags', session.tags?.length ? session.tags.join(', ') : undefined],
+    ['timestamp', session.timestamp],
+    ['version', session.version],
+    ['messageCount', session.messages.length],
+    ['userAgent', session.metadata?.userAgent],
+    ['clientVersion', session.metadata?.clientVersion],
+  ];
+  return fields.filter((field): field is [string, string | number] => field[1] !== undefined);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Quote a YAML scalar so values containing colons, quotes or newlines stay valid
+ */
+function yamlScalar(value: string | number): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+export function renderMarkdown(session: ChatSession): string {
+  const lines = [
+    '---',
+    ...frontMatter(session).map(([key, value]) => `${key}: ${yamlScalar(value)}`),
+    '---',
+    '',
+    `# ${session.title ?? `Chat session ${session.sessionId}`}`,
+  ];
+
+  session.messages.forEach((message, index) => {
+    lines.push('', `## ${index + 1}. ${ROLE_LABELS[message.role]}`);
+    if (message.timestamp) {
+      lines.push('', `_${message.timestamp}_`);
+    }
+    lines.push('', message.content);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderHtml(session: ChatSession): string {
+  const title = escapeHtml(session.title ?? `Chat session ${session.sessionId}`);
+  const metadata = frontMatter(session)
+    .map(([key, value]) => `      <dt>${escapeHtml(key)}</dt><dd>${escapeHtml(String(value))}</dd>`)
+    .join('\n');
+  const messages = session.messages
+    .map((message, index) => {
+      const time = message.timestamp
+        ? ` <time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(message.timestamp)}</time>`
+        : '';
+      return [
+        `  <article class="message message-${message.role}" id="message-${index}">`,
+        `    <h2>${index + 1}. ${ROLE_LABELS[message.role]}${time}</h2>`,
+        `    <pre>${escapeHtml(message.content)}</pre>`,
+        '  </article>',
+      ].join('\n');
+    })
+    .join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${title}</title>`,
+    ...frontMatter(session).map(
+      ([key, value]) => `  <meta name="chat:${escapeHtml(key)}" content="${escapeHtml(String(value))}">`
+    ),
+    `  <style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '  <header>',
+    `    <h1>${title}</h1>`,
+    '    <dl>',
+    metadata,
+    '    </dl>',
+    '  </header>',
+    messages,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * One JSON record per line: a session header followed by each message
+ */
+export function renderJsonl(session: ChatSession): string {
+  const records: unknown[] = [
+    {
+      type: 'session',
+      sessionId: session.sessionId,
+      title: session.title,
+      tags: session.tags,
+      timestamp: session.timestamp,
+      version: session.version,
+      messageCount: session.messages.length,
+      metadata: session.metadata,
+    },
+    ...session.messages.map((message, index) => ({ type: 'message', index, ...message })),
+  ];
+
+  return records.map(record => JSON.stringify(record)).join('\n') + '\n';
+}
+
+export function renderText(session: ChatSession): string {
+  const lines = frontMatter(session).map(([key, value]) => `${key}: ${value}`);
+
+  session.messages.forEach((message, index) => {
+    const time = message.timestamp ? ` (${message.timestamp})` : '';
+    lines.push('', `[${index + 1}] ${ROLE_LABELS[message.role]}${time}`, message.content);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+const RENDERERS: Record<ExportFormat, (session: ChatSession) => string> = {
+  markdown: renderMarkdown,
+  html: renderHtml,
+  jsonl: renderJsonl,
+  txt: renderText,
+};
+
+/**
+ * Export service
+ * Renders chat session transcripts into downloadable documents
+ */
+class ExportService {
+  /**
+   * Render a session in the requested format
+   */
+  render(session: ChatSession, format: ExportFormat): ExportedDocument {
+    // Session IDs are client supplied; keep the filename header-safe
+    const baseName = session.sessionId.replace(/[^A-Za-z0-9._-]+/g, '_');
+
+    return {
+      contentType: CONTENT_TYPES[format],
+      filename: `${baseName}.${FILE_EXTENSIONS[format]}`,
+      body: RENDERERS[format](session),
+    };
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService();
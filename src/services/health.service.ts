@@ -0,0 +1,132 @@
+import { readdir } from 'fs/promises';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import type { DependencyCheck, MigrationCheck, ReadinessReport } from '../types/index.js';
+import { prisma } from '../config/database.js';
+import logger from '../config/logger.js';
+import { secretsService } from './secrets.service.js';
+
+// Probes must answer quickly, so a dependency that hangs counts as down
+const CHECK_TIMEOUT_MS = 2000;
+
+/**
+ * Run a check, timing it and turning failures and timeouts into a down status
+ */
+async function runCheck<T extends Omit<DependencyCheck, 'latencyMs'>>(
+  name: string,
+  check: () => Promise<T>
+): Promise<(T & { latencyMs: number }) | DependencyCheck> {
+  const start = performance.now();
+  const latencyMs = () => Math.round((performance.now() - start) * 100) / 100;
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+    });
+    const result = await Promise.race([check(), timeout]);
+    return { ...result, latencyMs: latencyMs() };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn({ context: { check: name, error: message } }, 'Readiness check failed');
+    return { status: 'down', latencyMs: latencyMs(), message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Health service
+ * Checks the dependencies an instance needs before it can serve traffic
+ */
+export class HealthService {
+  /**
+   * @param migrationsDir - Migrations shipped with the app, compared with the
+   * ones applied to the database
+   */
+  constructor(private readonly migrationsDir = path.resolve('prisma/migrations')) {}
+
+  async checkReadiness(): Promise<ReadinessReport> {
+    const [database, migrations, secretManager] = await Promise.all([
+      runCheck('database', () => this.checkDatabase()),
+      runCheck('migrations', () => this.checkMigrations()),
+      runCheck('secretManager', () => this.checkSecretManager()),
+    ]);
+
+    const checks = { database, migrations, secretManager };
+    const ready = Object.values(checks).every(check => check.status !== 'down');
+
+    return {
+      status: ready ? 'ready' : 'not_ready',
+      timestamp: new Date().toISOString(),
+      checks,
+    };
+  }
+
+  /**
+   * Database check alone, for the legacy /api/health endpoint
+   */
+  async checkDatabaseHealth(): Promise<DependencyCheck> {
+    return runCheck('database', () => this.checkDatabase());
+  }
+
+  /**
+   * Round trip to the database with a query that touches no tables
+   */
+  private async checkDatabase(): Promise<Omit<DependencyCheck, 'latencyMs'>> {
+    await prisma.$queryRaw`SELECT 1`;
+    return { status: 'up' };
+  }
+
+  /**
+   * Compare the migrations Prisma has applied with the ones shipped with the app.
+   * Down when any is pending or failed, since the code may need the new schema.
+   */
+  private async checkMigrations(): Promise<Omit<MigrationCheck, 'latencyMs'>> {
+    const rows = await prisma.$queryRaw<Array<{ name: string; finished: boolean; rolledBack: boolean }>>`
+      SELECT "migration_name" AS "name",
+             "finished_at" IS NOT NULL AS "finished",
+             "rolled_back_at" IS NOT NULL AS "rolledBack"
+      FROM "_prisma_migrations"
+    `;
+
+    // A failed migration that was rolled back and re-applied has one row per attempt
+    const applied = new Set(rows.filter(row => row.finished && !row.rolledBack).map(row => row.name));
+    const failed = rows
+      .filter(row => !row.finished && !row.rolledBack && !applied.has(row.name))
+      .map(row => row.name);
+
+    let shipped: string[] = [];
+    try {
+      const entries = await readdir(this.migrationsDir, { withFileTypes: true });
+      shipped = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch (error) {
+      // Without the directory only failed migrations can be detected
+      logger.warn({ context: { migrationsDir: this.migrationsDir, error } }, 'Could not read migrations directory');
+    }
+    const pending = shipped.filter(name => !applied.has(name)).sort();
+
+    if (failed.length > 0 || pending.length > 0) {
+      return {
+        status: 'down',
+        message: failed.length > 0 ? 'Migrations failed' : 'Migrations are pending',
+        applied: applied.size,
+        pending,
+        failed,
+      };
+    }
+    return { status: 'up', applied: applied.size, pending, failed };
+  }
+
+  private async checkSecretManager(): Promise<Omit<DependencyCheck, 'latencyMs'>> {
+    const { reachable, error } = await secretsService.getStatus();
+
+    if (reachable === null) {
+      return { status: 'skipped', message: 'Secrets are read from the environment outside production' };
+    }
+    return reachable ? { status: 'up' } : { status: 'down', message: error };
+  }
+}
+
+// Export singleton instance
+export const healthService = new HealthService();
@@ -0,0 +1,452 @@
+import type {
+  ChatSession,
+  ImportConflictMode,
+  ImportFormat,
+  ImportRecordResult,
+  ImportReport,
+  Message,
+  RequestLimits,
+} from '../types/index.js';
+import { schemas } from '../config/schemas.js';
+import { getLimits } from '../config/limits.js';
+import { validateMessageLimits, validateSchema } from '../middleware/validation.js';
+import type { ValidationErrorDetail } from '../middleware/validation.js';
+import { storageService } from './storage.service.js';
+import type { ImportOutcome } from './storage.service.js';
+import logger from '../config/logger.js';
+import { AppError, PayloadTooLargeError } from '../errors/index.js';
+import type { ErrorResponse } from '../errors/index.js';
+
+export interface ImportOptions {
+  format: ImportFormat;
+  onConflict: ImportConflictMode;
+  ownerId?: string;
+}
+
+/**
+ * Thrown when a single import record cannot be used; the message is the reason
+ * reported back for that record
+ */
+export class ImportRecordError extends Error {
+  constructor(message: string, public readonly skip = false) {
+    super(message);
+    this.name = 'ImportRecordError';
+  }
+}
+
+/**
+ * Thrown when an import stops partway, e.g. at the upload size limit.
+ * Records before that point have been written, so the response carries
+ * the partial report as `data` next to the error that stopped it.
+ */
+export class ImportAbortedError extends AppError {
+  readonly report: ImportReport;
+
+  constructor(cause: unknown, report: ImportReport) {
+    const error = cause instanceof AppError
+      ? cause
+      : new AppError(500, 'INTERNAL_ERROR', 'Internal server error', 'Import stopped unexpectedly');
+    super(error.status, error.code, error.title, error.message);
+    this.report = report;
+  }
+
+  toResponse(): ErrorResponse {
+    return { ...super.toResponse(), data: this.report };
+  }
+}
+
+// Sessions are written to the database this many at a time
+const BATCH_SIZE = 100;
+
+/**
+ * Subset of a ChatGPT `conversations.json` entry.
+ * Messages form a tree; current_node is the leaf of the branch the user last saw.
+ */
+interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string | null;
+  create_time?: number | null;
+  current_node?: string;
+  mapping: Record<string, {
+    parent?: string | null;
+    message?: {
+      author?: { role?: string };
+      content?: { parts?: unknown[] };
+      create_time?: number | null;
+    } | null;
+  }>;
+}
+
+/**
+ * Subset of a Claude `conversations.json` entry
+ */
+interface ClaudeConversation {
+  uuid?: string;
+  name?: string | null;
+  created_at?: string;
+  chat_messages: Array<{
+    sender?: string;
+    text?: string;
+    content?: Array<{ type?: string; text?: string }>;
+    created_at?: string;
+  }>;
+}
+
+const FOREIGN_ROLES: Record<string, Message['role']> = {
+  user: 'user',
+  human: 'user',
+  assistant: 'model',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fromEpochSeconds(value: number | null | undefined): string | undefined {
+  return typeof value === 'number' ? new Date(value * 1000).toISOString() : undefined;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
+/**
+ * Map a ChatGPT conversation onto a session, following the active branch.
+ * System and tool messages are dropped.
+ */
+export function fromChatGpt(conversation: ChatGptConversation): ChatSession {
+  const id = conversation.conversation_id ?? conversation.id;
+  if (!id) {
+    throw new ImportRecordError('ChatGPT conversation has no id');
+  }
+
+  // Walk from the active leaf back to the root
+  const thread: ChatGptConversation['mapping'][string][] = [];
+  const visited = new Set<string>();
+  let nodeId = conversation.current_node;
+  while (nodeId && conversation.mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    thread.unshift(conversation.mapping[nodeId]);
+    nodeId = conversation.mapping[nodeId].parent ?? undefined;
+  }
+
+  const messages: Message[] = [];
+  for (const { message } of thread) {
+    const role = FOREIGN_ROLES[message?.author?.role ?? ''];
+    const content = (message?.content?.parts ?? [])
+      .filter((part): part is string => typeof part === 'string')
+      .join('\n')
+      .trim();
+    if (role && content) {
+      const timestamp = fromEpochSeconds(message?.create_time);
+      messages.push({ role, content, ...(timestamp && { timestamp }) });
+    }
+  }
+
+  return {
+    sessionId: `chatgpt-${id}`,
+    messages,
+    timestamp: fromEpochSeconds(conversation.create_time) ?? new Date().toISOString(),
+    ...(conversation.title?.trim() && { title: conversation.title.trim() }),
+  };
+}
+
+/**
+ * Map a Claude conversation onto a session
+ */
+export function fromClaude(conversation: ClaudeConversation): ChatSession {
+  if (!conversation.uuid) {
+    throw new ImportRecordError('Claude conversation has no uuid');
+  }
+
+  const messages: Message[] = [];
+  for (const message of conversation.chat_messages) {
+    const role = FOREIGN_ROLES[message.sender ?? ''];
+    const content = (
+      message.text ||
+      (message.content ?? [])
+        .filter(block => block.type === 'text' && typeof block.text === 'string')
+        .map(block => block.text)
+        .join('\n')
+    ).trim();
+    if (role && content) {
+      const timestamp = toIsoDate(message.created_at);
+      messages.push({ role, content, ...(timestamp && { timestamp }) });
+    }
+  }
+
+  return {
+    sessionId: `claude-${conversation.uuid}`,
+    messages,
+    timestamp: toIsoDate(conversation.created_at) ?? new Date().toISOString(),
+    ...(conversation.name?.trim() && { title: conversation.name.trim() }),
+  };
+}
+
+/**
+ * Guess a record's format from its shape
+ */
+function detectFormat(record: Record<string, unknown>): Exclude<ImportFormat, 'auto'> {
+  if (isObject(record.mapping)) {
+    return 'chatgpt';
+  }
+  if (Array.isArray(record.chat_messages)) {
+    return 'claude';
+  }
+  return 'native';
+}
+
+function formatErrors(errors: ValidationErrorDetail[]): string {
+  return errors.map(error => `${error.path} ${error.message}`).join('; ');
+}
+
+/**
+ * Check a record against the import schema and the size limits
+ */
+function validateRecord(record: unknown, limits: RequestLimits): void {
+  const errors: ValidationErrorDetail[] = [];
+  validateSchema(schemas.ImportSessionRecord, record, 'record', errors);
+  if (errors.length === 0) {
+    validateMessageLimits((record as ChatSession).messages, 'record.messages', errors, limits);
+  }
+  if (errors.length > 0) {
+    throw new ImportRecordError(formatErrors(errors));
+  }
+}
+
+/**
+ * Turn one parsed import record into a validated session.
+ * Throws ImportRecordError with the reason when the record is unusable.
+ */
+export function toImportedSession(record: unknown, format: ImportFormat, limits: RequestLimits = getLimits()): ChatSession {
+  if (!isObject(record)) {
+    throw new ImportRecordError('Record must be a JSON object');
+  }
+
+  const recordFormat = format === 'auto' ? detectFormat(record) : format;
+  let session: ChatSession;
+
+  if (recordFormat === 'native') {
+    validateRecord(record, limits);
+    const { sessionId, messages, timestamp, title, tags, metadata } = record as unknown as ChatSession;
+    return {
+      sessionId,
+      messages,
+      timestamp: timestamp ?? new Date().toISOString(),
+      ...(title && { title }),
+      ...(tags && { tags }),
+      ...(metadata && { metadata }),
+    };
+  }
+
+  if (recordFormat === 'chatgpt') {
+    if (!isObject(record.mapping)) {
+      throw new ImportRecordError('ChatGPT conversation has no mapping');
+    }
+    session = fromChatGpt(record as unknown as ChatGptConversation);
+  } else {
+    if (!Array.isArray(record.chat_messages)) {
+      throw new ImportRecordError('Claude conversation has no chat_messages');
+    }
+    session = fromClaude(record as unknown as ClaudeConversation);
+  }
+
+  if (session.messages.length === 0) {
+    throw new ImportRecordError('Conversation has no user or assistant messages', true);
+  }
+
+  // Mapped sessions still have to satisfy the same limits as native ones
+  validateRecord(session, limits);
+
+  return session;
+}
+
+function applyOutcome(result: ImportRecordResult, outcome: ImportOutcome): void {
+  switch (outcome) {
+    case 'created':
+    case 'replaced':
+      result.status = 'imported';
+      result.action = outcome;
+      break;
+    case 'exists':
+      result.status = 'skipped';
+      result.reason = 'Session already exists';
+      break;
+    // Same reason for both, as saves answer 404 for both, so an import
+    // cannot be used to find out which session IDs other users have
+    case 'forbidden':
+    case 'trashed':
+      result.status = 'failed';
+      result.reason = 'Session ID is unavailable';
+      break;
+  }
+}
+
+/**
+ * Split an upload into lines (LF or CRLF), without buffering more than one line.
+ * Throws PayloadTooLargeError once the upload passes maxBytes or a line passes maxLineBytes.
+ */
+export async function* readLines(
+  input: AsyncIterable<Buffer | string>,
+  limits: { maxBytes: number; maxLineBytes: number }
+): AsyncGenerator<string> {
+  let total = 0;
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+
+  const checkLine = (bytes: number) => {
+    if (bytes > limits.maxLineBytes) {
+      throw new PayloadTooLargeError(`Each import line must be at most ${limits.maxLineBytes} bytes`);
+    }
+  };
+  const takeLine = (tail: Buffer) => {
+    const line = Buffer.concat([...pending, tail]).toString('utf8');
+    pending = [];
+    pendingBytes = 0;
+    return line.endsWith('\r') ? line.slice(0, -1) : line;
+  };
+
+  for await (const data of input) {
+    const chunk = typeof data === 'string' ? Buffer.from(data) : data;
+    total += chunk.length;
+    if (total > limits.maxBytes) {
+      throw new PayloadTooLargeError(`Import upload must be at most ${limits.maxBytes} bytes`);
+    }
+
+    let start = 0;
+    for (let end = chunk.indexOf(0x0a); end !== -1; end = chunk.indexOf(0x0a, start)) {
+      checkLine(pendingBytes + end - start);
+      yield takeLine(chunk.subarray(start, end));
+      start = end + 1;
+    }
+
+    if (start < chunk.length) {
+      checkLine(pendingBytes + chunk.length - start);
+      pending.push(chunk.subarray(start));
+      pendingBytes += chunk.length - start;
+    }
+  }
+
+  if (pendingBytes > 0) {
+    yield takeLine(Buffer.alloc(0));
+  }
+}
+
+function buildReport(records: ImportRecordResult[]): ImportReport {
+  return {
+    total: records.length,
+    imported: records.filter(record => record.status === 'imported').length,
+    skipped: records.filter(record => record.status === 'skipped').length,
+    failed: records.filter(record => record.status === 'failed').length,
+    records,
+  };
+}
+
+/**
+ * Import service
+ * Reads JSONL uploads of chat sessions (native or foreign exports) and
+ * writes them in batches through storageService
+ */
+class ImportService {
+  /**
+   * Import one record per line. Blank lines are ignored.
+   * Every other line gets an entry in the report, in upload order.
+   * If reading the upload fails partway, the records read so far are still
+   * written and ImportAbortedError carries their report.
+   */
+  async importLines(lines: AsyncIterable<string>, options: ImportOptions): Promise<ImportReport> {
+    const records: ImportRecordResult[] = [];
+    const seen = new Set<string>();
+    let batch: Array<{ result: ImportRecordResult; session: ChatSession }> = [];
+    let lineNumber = 0;
+    const limits = getLimits();
+
+    const flush = async () => {
+      if (batch.length === 0) {
+        return;
+      }
+      const pending = batch;
+      batch = [];
+
+      try {
+        const outcomes = await storageService.importSessions(
+          pending.map(({ session }) => session),
+          { ownerId: options.ownerId, onConflict: options.onConflict }
+        );
+        pending.forEach(({ result }, index) => applyOutcome(result, outcomes[index]));
+      } catch (error) {
+        for (const { result } of pending) {
+          result.status = 'failed';
+          result.reason = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+    };
+
+    try {
+      for await (const line of lines) {
+        lineNumber++;
+        if (line.trim() === '') {
+          continue;
+        }
+
+        const result: ImportRecordResult = { line: lineNumber, status: 'failed' };
+        records.push(result);
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          result.reason = 'Invalid JSON';
+          continue;
+        }
+
+        try {
+          const session = toImportedSession(parsed, options.format, limits);
+          result.sessionId = session.sessionId;
+
+          if (seen.has(session.sessionId)) {
+            result.status = 'skipped';
+            result.reason = 'Duplicate session ID earlier in the upload';
+            continue;
+          }
+          seen.add(session.sessionId);
+
+          batch.push({ result, session });
+          if (batch.length >= BATCH_SIZE) {
+            await flush();
+          }
+        } catch (error) {
+          if (!(error instanceof ImportRecordError)) {
+            throw error;
+          }
+          result.status = error.skip ? 'skipped' : 'failed';
+          result.reason = error.message;
+        }
+      }
+    } catch (error) {
+      await flush();
+      const report = buildReport(records);
+      logger.warn(
+        { context: { format: options.format, total: report.total, imported: report.imported, error: error instanceof Error ? error.message : String(error) } },
+        'Import stopped early'
+      );
+      throw new ImportAbortedError(error, report);
+    }
+
+    await flush();
+
+    const report = buildReport(records);
+
+    logger.info(
+      { context: { format: options.format, total: report.total, imported: report.imported, skipped: report.skipped, failed: report.failed } },
+      'Imported chat sessions'
+    );
+
+    return report;
+  }
+}
+
+// Export singleton instance
+export const importService = new ImportService();
@@ -0,0 +1,234 @@
+import { createHmac } from 'crypto';
+import type { Message, RedactionMode } from '../types/index.js';
+import { getRedactionConfig } from '../config/redaction.js';
+import type { RedactionConfig } from '../config/redaction.js';
+import logger from '../config/logger.js';
+
+/**
+ * Finds one kind of sensitive value in message content.
+ * Detectors can be added via redactionService.registerDetector().
+ */
+export interface RedactionDetector {
+  readonly type: string;
+  /** Must have the global flag */
+  readonly pattern: RegExp;
+  /** Optional extra check to drop false positives */
+  accept?(match: string): boolean;
+}
+
+/**
+ * What was redacted from one message
+ */
+export interface RedactionFinding {
+  messageIndex: number;
+  detector: string;
+  count: number;
+}
+
+export interface RedactionResult {
+  messages: Message[];
+  findings: RedactionFinding[];
+  mode: RedactionMode;
+}
+
+/**
+ * Luhn checksum, so arbitrary long digit runs are not taken for card numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Issuer prefixes (IIN ranges) and card number lengths of the major brands
+ */
+const CARD_BRANDS: Array<{ prefix: RegExp; lengths: number[] }> = [
+  // Visa
+  { prefix: /^4/, lengths: [13, 16, 19] },
+  // Mastercard
+  { prefix: /^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/, lengths: [16] },
+  // American Express
+  { prefix: /^3[47]/, lengths: [15] },
+  // Discover
+  { prefix: /^(?:6011|64[4-9]|65)/, lengths: [16, 17, 18, 19] },
+  // Diners Club
+  { prefix: /^(?:30[0-5]|3095|36|3[89])/, lengths: [14, 15, 16, 17, 18, 19] },
+  // JCB
+  { prefix: /^35(?:2[89]|[3-8]\d)/, lengths: [16, 17, 18, 19] },
+  // UnionPay
+  { prefix: /^62/, lengths: [16, 17, 18, 19] },
+];
+
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  return CARD_BRANDS.some(brand => brand.prefix.test(digits) && brand.lengths.includes(digits.length)) && passesLuhn(digits);
+}
+
+export const builtInDetectors: RedactionDetector[] = [
+  {
+    type: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    type: 'phone',
+    // Only explicitly formatted numbers: a +country code, or a parenthesised area code.
+    // Bare digit runs are too often IDs, dates, versions or timestamps.
+    pattern: /(?<![\w+])(?:\+\d{1,3}(?:[\s.-]?(?:\(\d{1,4}\)|\d{1,5})){1,5}|\(\d{2,5}\)[\s.-]?\d{3,4}[\s.-]?\d{3,4})(?![\w(]|[.-]?\d)/g,
+    // E.164 numbers have at most 15 digits
+    accept: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15;
+    },
+  },
+  {
+    type: 'credit-card',
+    pattern: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+    accept: isCardNumber,
+  },
+  {
+    type: 'bearer-token',
+    pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]{8,}=*/gi,
+  },
+  {
+    type: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g,
+  },
+  {
+    type: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    type: 'gcp-api-key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  },
+  {
+    type: 'private-key',
+    pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )?PRIVATE KEY-----/g,
+  },
+  {
+    type: 'postgres-url',
+    pattern: /\bpostgres(?:ql)?:\/\/[^\s'"<>]+/gi,
+  },
+];
+
+interface Match {
+  start: number;
+  end: number;
+  detector: string;
+}
+
+/**
+ * Redaction service
+ * Replaces sensitive values in messages before they are stored
+ */
+class RedactionService {
+  private detectors: RedactionDetector[] = [...builtInDetectors];
+  private config: RedactionConfig | null = null;
+
+  /**
+   * Add a detector; replaces a registered detector of the same type
+   */
+  registerDetector(detector: RedactionDetector): void {
+    if (!detector.pattern.global) {
+      throw new Error(`Redaction detector ${detector.type} needs a global pattern`);
+    }
+    this.detectors = [...this.detectors.filter(existing => existing.type !== detector.type), detector];
+    logger.info({ context: { detector: detector.type } }, 'Redaction detector registered');
+  }
+
+  /**
+   * Override the configuration read from the environment
+   */
+  configure(config: RedactionConfig): void {
+    const unknown = config.detectors?.filter(type => !this.detectors.some(detector => detector.type === type));
+    if (unknown?.length) {
+      logger.warn({ context: { detectors: unknown } }, 'Unknown redaction detectors configured');
+    }
+    this.config = config;
+  }
+
+  /**
+   * Redact every message. Findings use firstIndex + the position in messages
+   * as the message index.
+   */
+  redactMessages(messages: Message[], firstIndex = 0): RedactionResult {
+    const config = this.getConfig();
+    const findings: RedactionFinding[] = [];
+
+    if (!config.enabled) {
+      return { messages, findings, mode: config.mode };
+    }
+
+    const detectors = config.detectors
+      ? this.detectors.filter(detector => config.detectors!.includes(detector.type))
+      : this.detectors;
+
+    const redacted = messages.map((message, offset) => {
+      const { content, counts } = this.redactText(message.content, detectors, config);
+      for (const [detector, count] of counts) {
+        findings.push({ messageIndex: firstIndex + offset, detector, count });
+      }
+      return counts.size > 0 ? { ...message, content } : message;
+    });
+
+    return { messages: redacted, findings, mode: config.mode };
+  }
+
+  private redactText(
+    text: string,
+    detectors: RedactionDetector[],
+    config: RedactionConfig
+  ): { content: string; counts: Map<string, number> } {
+    const matches: Match[] = [];
+
+    for (const detector of detectors) {
+      for (const match of text.matchAll(detector.pattern)) {
+        if (!detector.accept || detector.accept(match[0])) {
+          matches.push({ start: match.index!, end: match.index! + match[0].length, detector: detector.type });
+        }
+      }
+    }
+
+    // Overlapping matches: the earliest wins, then the longest
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const counts = new Map<string, number>();
+    let content = '';
+    let cursor = 0;
+
+    for (const match of matches) {
+      if (match.start < cursor) {
+        continue;
+      }
+      content += text.slice(cursor, match.start) + this.replacement(text.slice(match.start, match.end), match.detector, config);
+      cursor = match.end;
+      counts.set(match.detector, (counts.get(match.detector) ?? 0) + 1);
+    }
+
+    return { content: content + text.slice(cursor), counts };
+  }
+
+  private replacement(value: string, detector: string, config: RedactionConfig): string {
+    if (config.mode === 'mask') {
+      return `[REDACTED:${detector}]`;
+    }
+    const hash = createHmac('sha256', config.hashKey).update(value).digest('hex').slice(0, 12);
+    return `[${detector}:${hash}]`;
+  }
+
+  private getConfig(): RedactionConfig {
+    this.config ??= getRedactionConfig();
+    return this.config;
+  }
+}
+
+// Export singleton instance
+export const redactionService = new RedactionService();
@@ -0,0 +1,87 @@
+import type { RetentionDryRun, RetentionPolicy } from '../types/index.js';
+import { storageService } from './storage.service.js';
+import type { ExpiryRule } from './storage.service.js';
+import logger from '../config/logger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DRY_RUN_SAMPLE_SIZE = 20;
+
+/**
+ * Turn a policy into ordered expiry rules: metadata rules first, then the
+ * catch-all maxAgeDays (if any)
+ */
+export function toExpiryRules(policy: RetentionPolicy, now: Date): Array<ExpiryRule & { maxAgeDays: number }> {
+  const rules = [
+    ...policy.rules.map(rule => ({ ...rule, field: rule.field ?? policy.field })),
+    ...(policy.maxAgeDays === undefined ? [] : [{ field: policy.field, maxAgeDays: policy.maxAgeDays }]),
+  ];
+
+  return rules.map(rule => ({
+    ...rule,
+    cutoff: new Date(now.getTime() - rule.maxAgeDays * DAY_MS),
+  }));
+}
+
+/**
+ * Retention service
+ * Finds chat sessions older than the configured policy allows and deletes or
+ * archives them in batches
+ */
+class RetentionService {
+  /**
+   * Report what apply() would do right now, without changing anything
+   */
+  async dryRun(policy: RetentionPolicy, now: Date = new Date()): Promise<RetentionDryRun> {
+    const rules = toExpiryRules(policy, now);
+    const [counts, sample] = await Promise.all([
+      storageService.countExpiredSessions(rules),
+      storageService.findExpiredSessions(rules, DRY_RUN_SAMPLE_SIZE),
+    ]);
+
+    return {
+      enabled: policy.enabled,
+      action: policy.action,
+      evaluatedAt: now.toISOString(),
+      total: counts.reduce((sum, count) => sum + count, 0),
+      rules: rules.map((rule, index) => ({
+        field: rule.field,
+        maxAgeDays: rule.maxAgeDays,
+        metadata: rule.metadata ?? null,
+        cutoff: rule.cutoff.toISOString(),
+        matched: counts[index],
+      })),
+      sample: sample.map(session => session.sessionId),
+    };
+  }
+
+  /**
+   * Delete or archive every expired session, one batch at a time.
+   * Returns the number of sessions processed.
+   */
+  async apply(policy: RetentionPolicy, now: Date = new Date()): Promise<number> {
+    const rules = toExpiryRules(policy, now);
+    let processed = 0;
+
+    for (;;) {
+      const batch = await storageService.findExpiredSessions(rules, policy.batchSize);
+      if (batch.length === 0) {
+        break;
+      }
+
+      const ids = batch.map(session => session.id);
+      processed += policy.action === 'delete'
+        ? await storageService.purgeSessions(ids)
+        : await storageService.archiveSessions(ids);
+
+      if (batch.length < policy.batchSize) {
+        break;
+      }
+    }
+
+    logger.info({ context: { action: policy.action, processed } }, 'Applied retention policy');
+    return processed;
+  }
+}
+
+// Export singleton instance
+export const retentionService = new RetentionService();
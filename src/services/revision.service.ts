@@ -0,0 +1,134 @@
+import type { Message, MessageChange, RevisionDiff } from '../types/index.js';
+import { storageService } from './storage.service.js';
+
+/**
+ * Messages are compared by role and content; timestamps are ignored
+ */
+function sameMessage(a: Message, b: Message): boolean {
+  return a.role === b.role && a.content === b.content;
+}
+
+/**
+ * Turn the unmatched messages between two aligned messages into changes.
+ * Removed and added messages are paired in order as edits while their roles match.
+ */
+function pairChanges(before: Message[], after: Message[], removed: number[], added: number[]): MessageChange[] {
+  const changes: MessageChange[] = [];
+  let r = 0;
+  let a = 0;
+
+  while (r < removed.length && a < added.length && before[removed[r]].role === after[added[a]].role) {
+    changes.push({
+      type: 'edited',
+      fromIndex: removed[r],
+      toIndex: added[a],
+      before: before[removed[r]],
+      after: after[added[a]],
+    });
+    r++;
+    a++;
+  }
+  for (; r < removed.length; r++) {
+    changes.push({ type: 'removed', fromIndex: removed[r], message: before[removed[r]] });
+  }
+  for (; a < added.length; a++) {
+    changes.push({ type: 'added', toIndex: added[a], message: after[added[a]] });
+  }
+
+  return changes;
+}
+
+/**
+ * Diff two transcripts using their longest common subsequence of messages.
+ * Returns the changes in transcript order.
+ */
+export function diffMessages(before: Message[], after: Message[]): MessageChange[] {
+  // Skip the common prefix and suffix; edits usually touch the end of a chat
+  let start = 0;
+  while (start < before.length && start < after.length && sameMessage(before[start], after[start])) {
+    start++;
+  }
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > start && afterEnd > start && sameMessage(before[beforeEnd - 1], after[afterEnd - 1])) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  const rows = beforeEnd - start;
+  const cols = afterEnd - start;
+
+  // lcs[i][j]: length of the LCS of before[start + i..] and after[start + j..]
+  const lcs = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = sameMessage(before[start + i], after[start + j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: MessageChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && sameMessage(before[start + i], after[start + j])) {
+      changes.push(...pairChanges(before, after, removed, added));
+      removed = [];
+      added = [];
+      i++;
+      j++;
+    } else if (j < cols && (i === rows || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(start + j++);
+    } else {
+      removed.push(start + i++);
+    }
+  }
+  changes.push(...pairChanges(before, after, removed, added));
+
+  return changes;
+}
+
+/**
+ * Revision service
+ * Compares stored revisions of a chat session
+ */
+class RevisionService {
+  /**
+   * Diff two revisions of a session
+   * Returns null when the session or either revision does not exist
+   */
+  async diff(sessionId: string, from: number, to: number, ownerId?: string): Promise<RevisionDiff | null> {
+    const [before, after] = await Promise.all([
+      storageService.getRevision(sessionId, from, ownerId),
+      storageService.getRevision(sessionId, to, ownerId),
+    ]);
+
+    if (!before || !after) {
+      return null;
+    }
+
+    const changes = diffMessages(before.messages, after.messages);
+    const count = (type: MessageChange['type']) => changes.filter(change => change.type === type).length;
+    const edited = count('edited');
+
+    return {
+      sessionId,
+      from,
+      to,
+      summary: {
+        added: count('added'),
+        removed: count('removed'),
+        edited,
+        unchanged: before.messages.length - count('removed') - edited,
+      },
+      changes,
+    };
+  }
+}
+
+// Export singleton instance
+export const revisionService = new RevisionService();
@@ -10,6 +10,19 @@ import logger from '../config/logger.js';
  * In local development, secrets are loaded from .env file instead.
  */
 
+export interface SecretsStatus {
+  environment: 'production' | 'development';
+  clientInitialized: boolean;
+  projectId: string;
+  cachedSecrets: number;
+  /** Whether Secret Manager answered; null outside production, where it is not used */
+  reachable: boolean | null;
+  error?: string;
+}
+
+// gRPC status code returned when the service account may not list secrets
+const GRPC_PERMISSION_DENIED = 7;
+
 class SecretsService {
   private client: SecretManagerServiceClient | null = null;
   private secretsCache: Map<string, string> = new Map();
@@ -35,8 +48,13 @@ class SecretsService {
    * Get a secret value by name
    * @param secretName - Name of the secret (e.g., 'DATABASE_URL')
    * @param version - Version of the secret (default: 'latest')
+   * @param options.fresh - Skip the cache and read the current value
    */
-  async getSecret(secretName: string, version: string = 'latest'): Promise<string | null> {
+  async getSecret(
+    secretName: string,
+    version: string = 'latest',
+    options: { fresh?: boolean } = {}
+  ): Promise<string | null> {
     // In development, get from environment variables
     if (!this.isProduction) {
       const value = process.env[secretName];
@@ -48,7 +66,7 @@ class SecretsService {
 
     // Check cache first
     const cacheKey = `${secretName}:${version}`;
-    if (this.secretsCache.has(cacheKey)) {
+    if (!options.fresh && this.secretsCache.has(cacheKey)) {
       return this.secretsCache.get(cacheKey)!;
     }
 
@@ -82,13 +100,14 @@ class SecretsService {
   /**
    * Get multiple secrets at once
    * @param secretNames - Array of secret names
+   * @param options.fresh - Skip the cache and read the current values
    */
-  async getSecrets(secretNames: string[]): Promise<Record<string, string | null>> {
+  async getSecrets(secretNames: string[], options: { fresh?: boolean } = {}): Promise<Record<string, string | null>> {
     const secrets: Record<string, string | null> = {};
     
     await Promise.all(
       secretNames.map(async (name) => {
-        secrets[name] = await this.getSecret(name);
+        secrets[name] = await this.getSecret(name, 'latest', options);
       })
     );
 
@@ -105,14 +124,36 @@ class SecretsService {
 
   /**
    * Get service status
+   * In production this also calls Secret Manager to check it is reachable. A
+   * permission error still counts as reachable, since the API answered.
    */
-  getStatus() {
-    return {
+  async getStatus(): Promise<SecretsStatus> {
+    const status: Omit<SecretsStatus, 'reachable'> = {
       environment: this.isProduction ? 'production' : 'development',
       clientInitialized: this.client !== null,
       projectId: this.projectId || 'not set',
       cachedSecrets: this.secretsCache.size,
     };
+
+    // Secrets come from the environment outside production
+    if (!this.isProduction) {
+      return { ...status, reachable: null };
+    }
+
+    if (!this.client || !this.projectId) {
+      return { ...status, reachable: false, error: 'Secret Manager client not initialized or project ID missing' };
+    }
+
+    try {
+      await this.client.listSecrets({ parent: `projects/${this.projectId}`, pageSize: 1 }, { autoPaginate: false });
+      return { ...status, reachable: true };
+    } catch (error) {
+      if ((error as { code?: number }).code === GRPC_PERMISSION_DENIED) {
+        return { ...status, reachable: true };
+      }
+      logger.warn({ context: { error } }, 'Secret Manager is not reachable');
+      return { ...status, reachable: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
   }
 }
 
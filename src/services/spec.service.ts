@@ -0,0 +1,151 @@
+import type { ChatSession, TechSpec, TechSpecSections } from '../types/index.js';
+import { prisma, databaseError } from '../config/database.js';
+import { storageService } from './storage.service.js';
+import logger from '../config/logger.js';
+
+/**
+ * Builds the sections of a spec document from a chat session.
+ * Implementations can be swapped via specService.setGenerator().
+ */
+export interface SpecGenerator {
+  readonly name: string;
+  generate(session: ChatSession): Promise<TechSpecSections>;
+}
+
+const MAX_ITEMS_PER_SECTION = 10;
+
+// Ordered: a sentence is assigned to the first section whose pattern matches
+const SECTION_PATTERNS: Array<[keyof Omit<TechSpecSections, 'overview'>, RegExp]> = [
+  ['nonGoals', /\b(non-goals?|out of scope|won't|will not|not going to|don't need|do not need)\b/i],
+  ['risks', /\b(risks?|concerns?|danger|bottlenecks?|could fail|might fail|vulnerab\w*|security)\b/i],
+  ['requirements', /\b(must|shall|required|requirements?|needs? to|has to|have to)\b/i],
+  ['goals', /\b(goals?|objectives?|want to|aim to|should|so that|enable)\b/i],
+  ['architecture', /\b(architecture|services?|database|api|endpoints?|components?|queues?|cache|schema|frontend|backend|deploy\w*)\b/i],
+];
+
+/**
+ * Split message content into trimmed sentences, dropping list markers
+ */
+function splitSentences(content: string): string[] {
+  return content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Deterministic, keyword-based generator that runs without any external model.
+ * The same session always produces the same document.
+ */
+export class LocalSpecGenerator implements SpecGenerator {
+  readonly name = 'local';
+
+  async generate(session: ChatSession): Promise<TechSpecSections> {
+    const sections: TechSpecSections = {
+      overview: '',
+      goals: [],
+      nonGoals: [],
+      requirements: [],
+      architecture: [],
+      openQuestions: [],
+      risks: [],
+    };
+
+    const firstUserMessage = session.messages.find(message => message.role === 'user');
+    sections.overview = firstUserMessage
+      ? splitSentences(firstUserMessage.content).slice(0, 2).join(' ')
+      : 'No overview available.';
+
+    const seen = new Set<string>();
+
+    for (const message of session.messages) {
+      for (const sentence of splitSentences(message.content)) {
+        const key = sentence.toLowerCase();
+        if (seen.has(key)) {
+          continue;
+        }
+
+        // Questions only count as open when the user asked them
+        const section = sentence.endsWith('?')
+          ? (message.role === 'user' ? 'openQuestions' : undefined)
+          : SECTION_PATTERNS.find(([, pattern]) => pattern.test(sentence))?.[0];
+
+        if (section && sections[section].length < MAX_ITEMS_PER_SECTION) {
+          sections[section].push(sentence);
+          seen.add(key);
+        }
+      }
+    }
+
+    return sections;
+  }
+}
+
+/**
+ * Spec service
+ * Turns stored chat sessions into persisted technical spec documents
+ */
+class SpecService {
+  private generator: SpecGenerator;
+
+  constructor(generator: SpecGenerator = new LocalSpecGenerator()) {
+    this.generator = generator;
+  }
+
+  /**
+   * Replace the generator used to build spec documents
+   */
+  setGenerator(generator: SpecGenerator): void {
+    this.generator = generator;
+    logger.info({ context: { generator: generator.name } }, 'Spec generator configured');
+  }
+
+  /**
+   * Generate and persist a spec document for a session.
+   * Returns null when the session does not exist or belongs to another owner.
+   */
+  async generateSpec(sessionId: string, ownerId?: string): Promise<TechSpec | null> {
+    const session = await storageService.getSession(sessionId, ownerId);
+
+    if (!session) {
+      return null;
+    }
+
+    const sections = await this.generator.generate(session);
+
+    try {
+      const spec = await prisma.techSpec.create({
+        data: {
+          sessionId,
+          generator: this.generator.name,
+          ...sections,
+        },
+      });
+
+      logger.info(
+        { context: { sessionId, specId: spec.id, generator: spec.generator } },
+        'Generated tech spec'
+      );
+
+      return {
+        id: spec.id,
+        sessionId: spec.sessionId,
+        generator: spec.generator,
+        overview: spec.overview,
+        goals: spec.goals,
+        nonGoals: spec.nonGoals,
+        requirements: spec.requirements,
+        architecture: spec.architecture,
+        openQuestions: spec.openQuestions,
+        risks: spec.risks,
+        createdAt: spec.createdAt.toISOString(),
+      };
+    } catch (error) {
+      logger.error({ context: { sessionId, error } }, 'Failed to save tech spec');
+      throw databaseError('Failed to save tech spec', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const specService = new SpecService();
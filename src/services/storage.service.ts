@@ -1,6 +1,470 @@
-import type { ChatSession } from '../types/index.js';
-import { prisma } from '../config/database.js';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type {
+  ChatRevision,
+  ChatRevisionSummary,
+  ChatSearchResult,
+  ChatSession,
+  ChatSessionSummary,
+  ImportConflictMode,
+  ListSessionsOptions,
+  Message,
+  PaginatedResult,
+  RedactionAuditEntry,
+  RetentionField,
+  RetentionRule,
+  SearchSessionsOptions,
+  SearchSnippet,
+  SessionLineage,
+  TrashedSessionSummary,
+  UpdateSessionRequest,
+} from '../types/index.js';
+import { prisma, databaseError } from '../config/database.js';
 import logger from '../config/logger.js';
+import { countSessionOperation } from '../config/metrics.js';
+import { getLimits } from '../config/limits.js';
+import { validateMessageLimits } from '../middleware/validation.js';
+import type { ValidationErrorDetail } from '../middleware/validation.js';
+import { redactionService } from './redaction.service.js';
+import { NotFoundError, PreconditionFailedError, ValidationError } from '../errors/index.js';
+
+export interface SaveSessionOptions {
+  /** Expected current version, or '*' to only require that the session exists */
+  ifMatch?: number | '*';
+  /** Principal the session belongs to; omit for unscoped (internal) access */
+  ownerId?: string;
+}
+
+export interface AppendMessagesOptions {
+  /** Session timestamp, only used when the append creates the session */
+  timestamp?: string;
+  ownerId?: string;
+}
+
+export interface ImportSessionsOptions {
+  ownerId?: string;
+  onConflict: ImportConflictMode;
+}
+
+/**
+ * Per-session result of importSessions:
+ * - created / replaced: the session was written
+ * - exists: the session already exists and onConflict is 'skip'
+ * - forbidden: the session ID belongs to another owner
+ * - trashed: the session is in the trash and must be restored first
+ */
+export type ImportOutcome = 'created' | 'replaced' | 'exists' | 'forbidden' | 'trashed';
+
+/**
+ * A session expires when it matches the rule's metadata and its date field is
+ * before the cutoff. Rules are checked in order; the first whose metadata
+ * matches decides, so a rule without metadata should come last.
+ */
+export interface ExpiryRule {
+  field: RetentionField;
+  cutoff: Date;
+  metadata?: RetentionRule['metadata'];
+}
+
+/**
+ * Thrown when a conditional save does not match the stored version.
+ * Carries the current server state (null if the session does not exist).
+ */
+export class VersionConflictError extends PreconditionFailedError {
+  declare readonly current: ChatSession | null;
+
+  constructor(current: ChatSession | null) {
+    super('Chat session was modified by another client', current);
+  }
+}
+
+/**
+ * Thrown when a session is missing, in the trash or owned by another
+ * principal; the three cases are deliberately indistinguishable to callers.
+ */
+export class SessionNotFoundError extends NotFoundError {
+  constructor(sessionId: string) {
+    super(`Chat session ${sessionId} not found`);
+  }
+}
+
+/**
+ * Thrown when appending would take a session past the message or character limits
+ */
+export class SessionLimitError extends ValidationError {
+  declare readonly details: ValidationErrorDetail[];
+
+  constructor(details: ValidationErrorDetail[]) {
+    super(details.map(detail => `${detail.path} ${detail.message}`).join('; '), details);
+  }
+}
+
+/**
+ * Thrown when a fork point is past the end of the parent transcript
+ */
+export class InvalidForkPointError extends ValidationError {
+  constructor(public readonly messageCount: number) {
+    super(`Fork point must be a message index below ${messageCount}`);
+  }
+}
+
+/**
+ * Encode a row id as an opaque pagination cursor
+ */
+export function encodeCursor(id: string): string {
+  return Buffer.from(JSON.stringify({ id })).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor back to a row id, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): string | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.id === 'string' ? decoded.id : null;
+  } catch {
+    return null;
+  }
+}
+
+const PREVIEW_LENGTH = 120;
+const TITLE_LENGTH = 80;
+const SNIPPETS_PER_RESULT = 3;
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2';
+
+// Include messages in transcript order when loading full sessions
+const withMessages = {
+  messages: { orderBy: { position: 'asc' } },
+} satisfies Prisma.ChatSessionInclude;
+
+type ChatSessionWithMessages = Prisma.ChatSessionGetPayload<{ include: typeof withMessages }>;
+
+// Load only what a summary needs: the message count and the first user message
+const summaryInclude = {
+  _count: { select: { messages: true } },
+  messages: {
+    where: { role: 'user' },
+    orderBy: { position: 'asc' },
+    take: 1,
+    select: { content: true },
+  },
+} satisfies Prisma.ChatSessionInclude;
+
+type ChatSessionSummaryRow = Prisma.ChatSessionGetPayload<{ include: typeof summaryInclude }>;
+
+/**
+ * Map a message row back to the API Message shape
+ */
+function toMessage(row: { role: string; content: string; timestamp: Date | null }): Message {
+  return {
+    role: row.role as Message['role'],
+    content: row.content,
+    ...(row.timestamp && { timestamp: row.timestamp.toISOString() }),
+  };
+}
+
+/**
+ * Map a session row (with ordered messages) to the API ChatSession shape
+ */
+function toChatSession(session: ChatSessionWithMessages): ChatSession {
+  return {
+    sessionId: session.sessionId,
+    messages: session.messages.map(toMessage),
+    timestamp: session.timestamp.toISOString(),
+    title: session.title,
+    tags: session.tags,
+    metadata: session.metadata as any,
+    version: session.version,
+  };
+}
+
+/**
+ * Build message rows for a session starting at the given position
+ */
+function toMessageRows(sessionId: string, messages: Message[], firstPosition: number) {
+  return messages.map((message, offset) => ({
+    sessionId,
+    position: firstPosition + offset,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp ? new Date(message.timestamp) : null,
+  }));
+}
+
+/**
+ * Redact messages before they are written. Returns the rows to insert and a
+ * function building the audit rows once the new session version is known.
+ */
+function toRedactedRows(sessionId: string, messages: Message[], firstPosition: number) {
+  const redaction = redactionService.redactMessages(messages, firstPosition);
+
+  return {
+    messages: redaction.messages,
+    rows: toMessageRows(sessionId, redaction.messages, firstPosition),
+    audits: (version: number) => redaction.findings.map(finding => ({
+      sessionId,
+      version,
+      messageIndex: finding.messageIndex,
+      detector: finding.detector,
+      mode: redaction.mode,
+      count: finding.count,
+    })),
+  };
+}
+
+/**
+ * Build the immutable revision row for a session written at the given version
+ */
+function toRevisionRow(session: ChatSession, messages: Message[], version: number) {
+  return {
+    sessionId: session.sessionId,
+    version,
+    messages: messages as unknown as Prisma.InputJsonValue,
+    messageCount: messages.length,
+    timestamp: new Date(session.timestamp),
+    metadata: session.metadata as any,
+  };
+}
+
+// Appends, updates and restores store only what changed on top of the previous
+// revision; every this many versions a full snapshot bounds the chain to rebuild
+const FULL_REVISION_INTERVAL = 50;
+
+type RevisionTx = Pick<typeof prisma, 'chatSession' | 'chatRevision' | '$queryRaw'>;
+
+/**
+ * Keep a full revision of the session as currently stored. Returns its version.
+ */
+async function snapshotRevision(tx: RevisionTx, sessionId: string): Promise<number> {
+  const row = await tx.chatSession.findUniqueOrThrow({
+    where: { sessionId },
+    include: withMessages,
+  });
+  const stored = toChatSession(row);
+
+  await tx.chatRevision.create({
+    data: toRevisionRow(stored, stored.messages, row.version),
+  });
+  return row.version;
+}
+
+/**
+ * Keep a revision for a write that added messages to the end of the
+ * transcript, or left it alone: only the added messages are stored, on top of
+ * the previous version's revision. Falls back to a full snapshot when that
+ * revision is gone. Returns the version.
+ */
+async function recordRevision(tx: RevisionTx, sessionId: string, added: Message[] = []): Promise<number> {
+  const row = await tx.chatSession.findUniqueOrThrow({
+    where: { sessionId },
+    select: { version: true, timestamp: true, metadata: true },
+  });
+
+  const base = row.version % FULL_REVISION_INTERVAL === 0
+    ? null
+    : await tx.chatRevision.findUnique({
+      where: { sessionId_version: { sessionId, version: row.version - 1 } },
+      select: { version: true, messageCount: true },
+    });
+  if (!base) {
+    return snapshotRevision(tx, sessionId);
+  }
+
+  await tx.chatRevision.create({
+    data: {
+      sessionId,
+      version: row.version,
+      baseVersion: base.version,
+      messages: added as unknown as Prisma.InputJsonValue,
+      messageCount: base.messageCount + added.length,
+      timestamp: row.timestamp,
+      metadata: row.metadata ?? Prisma.DbNull,
+    },
+  });
+  return row.version;
+}
+
+/**
+ * Rebuild the transcript of a revision by following its baseVersion chain
+ * back to the nearest full revision
+ */
+async function loadRevisionMessages(tx: RevisionTx, sessionId: string, version: number): Promise<Message[]> {
+  const chain = await tx.$queryRaw<Array<{ messages: Message[] }>>`
+    WITH RECURSIVE chain AS (
+      SELECT "version", "baseVersion", "messages"
+      FROM "chat_revisions"
+      WHERE "sessionId" = ${sessionId} AND "version" = ${version}
+      UNION ALL
+      SELECT r."version", r."baseVersion", r."messages"
+      FROM "chat_revisions" r
+      JOIN chain ON r."sessionId" = ${sessionId} AND r."version" = chain."baseVersion"
+    )
+    SELECT "messages" FROM chain ORDER BY "version"
+  `;
+  return chain.flatMap(link => link.messages);
+}
+
+function toRevisionSummary(row: { version: number; messageCount: number; timestamp: Date; createdAt: Date }): ChatRevisionSummary {
+  return {
+    version: row.version,
+    messageCount: row.messageCount,
+    timestamp: row.timestamp.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Build a short preview from a message's content
+ */
+function buildPreview(content: string | undefined): string | null {
+  if (content === undefined) {
+    return null;
+  }
+  const trimmed = content.trim();
+  return trimmed.length > PREVIEW_LENGTH ? `${trimmed.slice(0, PREVIEW_LENGTH - 1)}…` : trimmed;
+}
+
+/**
+ * Generate a session title from the first user message: whitespace collapsed
+ * to single spaces, truncated to TITLE_LENGTH. Kept in step with the backfill
+ * in the add_session_title_tags migration.
+ */
+function generateTitle(messages: Array<{ role: string; content: string }>): string | null {
+  const first = messages.find(message => message.role === 'user');
+  const collapsed = first?.content.replace(/\s+/g, ' ').trim();
+  if (!collapsed) {
+    return null;
+  }
+  return collapsed.length > TITLE_LENGTH ? `${collapsed.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : collapsed;
+}
+
+/**
+ * Trim and lowercase tags, dropping duplicates but keeping their order
+ */
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()))];
+}
+
+function toSummary(session: ChatSessionSummaryRow): ChatSessionSummary {
+  return {
+    sessionId: session.sessionId,
+    timestamp: session.timestamp.toISOString(),
+    messageCount: session._count.messages,
+    title: session.title,
+    tags: session.tags,
+    preview: buildPreview(session.messages[0]?.content),
+    lastActivity: session.updatedAt.toISOString(),
+    metadata: session.metadata as any,
+  };
+}
+
+/**
+ * Restrict a query to one owner's sessions; an undefined owner means unscoped
+ */
+function ownedBy(ownerId?: string): Prisma.ChatSessionWhereInput {
+  return ownerId === undefined ? {} : { ownerId };
+}
+
+/**
+ * Restrict a query to one owner's sessions that are not in the trash
+ */
+function activeFor(ownerId?: string): Prisma.ChatSessionWhereInput {
+  return { ...ownedBy(ownerId), deletedAt: null };
+}
+
+/**
+ * Restrict a query to one owner's sessions that are in the trash
+ */
+function trashedFor(ownerId?: string): Prisma.ChatSessionWhereInput {
+  return { ...ownedBy(ownerId), deletedAt: { not: null } };
+}
+
+// Column names are whitelisted here because they are interpolated into raw SQL
+const EXPIRY_COLUMNS: Record<RetentionField, Prisma.Sql> = {
+  timestamp: Prisma.raw('"timestamp"'),
+  updatedAt: Prisma.raw('"updatedAt"'),
+};
+
+/**
+ * SQL condition for a session's metadata containing every given value
+ */
+function metadataMatches(metadata?: ExpiryRule['metadata']): Prisma.Sql {
+  const entries = Object.entries(metadata ?? {});
+  if (entries.length === 0) {
+    return Prisma.sql`TRUE`;
+  }
+  return Prisma.join(
+    entries.map(([key, value]) => Prisma.sql`COALESCE("metadata"->>${key} = ${value}, FALSE)`),
+    ' AND '
+  );
+}
+
+/**
+ * SQL condition for sessions that expire under rules[index]: not already in
+ * the trash, not claimed by an earlier rule, and older than the cutoff
+ */
+function expiryCondition(rules: ExpiryRule[], index: number): Prisma.Sql {
+  const rule = rules[index];
+  const earlier = rules.slice(0, index).map(previous => Prisma.sql`AND NOT (${metadataMatches(previous.metadata)})`);
+
+  return Prisma.sql`(
+    "deletedAt" IS NULL
+    AND ${metadataMatches(rule.metadata)}
+    ${earlier.length > 0 ? Prisma.join(earlier, ' ') : Prisma.empty}
+    AND ${EXPIRY_COLUMNS[rule.field]} < ${rule.cutoff}
+  )`;
+}
+
+/**
+ * Build a Prisma date range filter, or undefined when neither bound is set
+ */
+function dateRange(from?: Date, to?: Date): Prisma.DateTimeFilter | undefined {
+  if (!from && !to) {
+    return undefined;
+  }
+  return {
+    ...(from && { gte: from }),
+    ...(to && { lte: to }),
+  };
+}
+
+/**
+ * Build findMany arguments for one page of sessions.
+ * Ties on the sort field are broken by row id so pages are stable.
+ */
+function pageQuery(options: ListSessionsOptions, trashed = false) {
+  const cursorId = options.cursor ? decodeCursor(options.cursor) : null;
+
+  return {
+    where: {
+      ...(trashed ? trashedFor(options.ownerId) : activeFor(options.ownerId)),
+      timestamp: dateRange(options.timestampFrom, options.timestampTo),
+      createdAt: dateRange(options.createdFrom, options.createdTo),
+      tags: options.tags && { hasEvery: normalizeTags(options.tags) },
+    },
+    orderBy: [{ [options.sortBy]: options.order }, { id: options.order }],
+    // Fetch one extra row to know whether another page exists
+    take: options.limit + 1,
+    ...(cursorId && { cursor: { id: cursorId }, skip: 1 }),
+  } satisfies Prisma.ChatSessionFindManyArgs;
+}
+
+/**
+ * Trim the extra row fetched by pageQuery and derive the next cursor
+ */
+function toPage<Row extends { id: string }, Item>(
+  rows: Row[],
+  limit: number,
+  map: (row: Row) => Item
+): PaginatedResult<Item> {
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items: page.map(map),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].id) : null,
+  };
+}
 
 /**
  * Storage service for chat sessions
@@ -9,43 +473,513 @@ import logger from '../config/logger.js';
 class StorageService {
   /**
    * Save a chat session (creates new or updates existing)
+   * The stored transcript is replaced by session.messages, and a revision
+   * snapshot is kept for the new version. Title, tags and metadata are only
+   * changed when given; an untitled session gets a generated title.
+   *
+   * When options.ifMatch is set the save only succeeds if the stored version
+   * equals it ('*' only requires the session to exist); otherwise a
+   * VersionConflictError carrying the current session is thrown.
+   * Returns the new version.
    */
-  async saveSession(session: ChatSession): Promise<void> {
+  async saveSession(session: ChatSession, options: SaveSessionOptions = {}): Promise<number> {
+    const { sessionId } = session;
+    const { ownerId } = options;
+
     try {
-      await prisma.chatSession.upsert({
-        where: { sessionId: session.sessionId },
-        update: {
-          messages: session.messages as any,
-          timestamp: new Date(session.timestamp),
-          metadata: session.metadata as any,
-        },
-        create: {
-          sessionId: session.sessionId,
-          messages: session.messages as any,
+      const redacted = toRedactedRows(sessionId, session.messages, 0);
+      const version = await prisma.$transaction(async (tx) => {
+        const now = new Date().toISOString();
+
+        // Concurrent first saves block on the unique index; only one inserts.
+        // Conditional saves never create a session.
+        const inserted = options.ifMatch === undefined
+          ? await tx.$executeRaw`
+              INSERT INTO "chat_sessions" ("id", "sessionId", "ownerId", "timestamp", "createdAt", "updatedAt")
+              VALUES (
+                ${randomUUID()},
+                ${sessionId},
+                ${ownerId ?? null},
+                ${session.timestamp}::timestamp(3),
+                ${now}::timestamp(3),
+                ${now}::timestamp(3)
+              )
+              ON CONFLICT ("sessionId") DO NOTHING
+            `
+          : 0;
+
+        // Lock the row so the owner and version checks hold until commit
+        const [existing] = await tx.$queryRaw<
+          Array<{ ownerId: string | null; deletedAt: Date | null; title: string | null; version: number }>
+        >`
+          SELECT "ownerId", "deletedAt", "title", "version" FROM "chat_sessions" WHERE "sessionId" = ${sessionId} FOR UPDATE
+        `;
+
+        // Sessions in the trash must be restored before they can be written
+        if (existing && (existing.deletedAt || (ownerId !== undefined && existing.ownerId !== ownerId))) {
+          throw new SessionNotFoundError(sessionId);
+        }
+        if (!existing || (options.ifMatch !== undefined && options.ifMatch !== '*' && existing.version !== options.ifMatch)) {
+          throw new VersionConflictError(null);
+        }
+
+        // An existing title is kept unless the save sets a new one
+        const data = {
           timestamp: new Date(session.timestamp),
           metadata: session.metadata as any,
-        },
+          title: session.title?.trim() ?? (existing.title ? undefined : generateTitle(redacted.messages)),
+          ...(session.tags && { tags: normalizeTags(session.tags) }),
+        };
+
+        // A newly inserted session keeps the default version of 1
+        const saved = await tx.chatSession.update({
+          where: { sessionId },
+          data: { ...data, ...(inserted === 0 && { version: { increment: 1 } }) },
+          select: { version: true },
+        });
+
+        await tx.chatMessage.deleteMany({
+          where: { sessionId },
+        });
+        await tx.chatMessage.createMany({
+          data: redacted.rows,
+        });
+        await tx.redactionAudit.createMany({
+          data: redacted.audits(saved.version),
+        });
+        await tx.chatRevision.create({
+          data: toRevisionRow(session, redacted.messages, saved.version),
+        });
+
+        return saved.version;
       });
+
       logger.info(
-        { context: { sessionId: session.sessionId, messageCount: session.messages.length } },
+        { context: { sessionId, messageCount: session.messages.length, version } },
         'Saved chat session'
       );
+      countSessionOperation('save', 'ok');
+      return version;
     } catch (error) {
+      if (error instanceof SessionNotFoundError) {
+        countSessionOperation('save', 'not_found');
+        throw error;
+      }
+      if (error instanceof VersionConflictError) {
+        countSessionOperation('save', 'rejected');
+        logger.warn({ context: { sessionId, ifMatch: options.ifMatch } }, 'Chat session version conflict');
+        throw new VersionConflictError(await this.getSession(sessionId, ownerId));
+      }
+      countSessionOperation('save', 'error');
       logger.error(
-        { context: { sessionId: session.sessionId, error } },
+        { context: { sessionId, error } },
         'Failed to save session'
       );
-      throw new Error('Failed to save chat session');
+      throw databaseError('Failed to save chat session', error);
+    }
+  }
+
+  /**
+   * Atomically append messages to a session, creating it on first append.
+   * The session row is locked for the duration of the transaction so
+   * concurrent appends are serialized and never lose messages.
+   * Returns the indices assigned to the new messages.
+   */
+  async appendMessages(
+    sessionId: string,
+    messages: Message[],
+    options: AppendMessagesOptions = {}
+  ): Promise<{ created: boolean; indices: number[]; messageCount: number; version: number }> {
+    const { ownerId, timestamp = new Date().toISOString() } = options;
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const now = new Date().toISOString();
+
+        // Concurrent first appends block on the unique index; only one inserts
+        const inserted = await tx.$executeRaw`
+          INSERT INTO "chat_sessions" ("id", "sessionId", "ownerId", "timestamp", "createdAt", "updatedAt")
+          VALUES (
+            ${randomUUID()},
+            ${sessionId},
+            ${ownerId ?? null},
+            ${timestamp}::timestamp(3),
+            ${now}::timestamp(3),
+            ${now}::timestamp(3)
+          )
+          ON CONFLICT ("sessionId") DO NOTHING
+        `;
+
+        const [locked] = await tx.$queryRaw<Array<{ ownerId: string | null; deletedAt: Date | null }>>`
+          SELECT "ownerId", "deletedAt" FROM "chat_sessions" WHERE "sessionId" = ${sessionId} FOR UPDATE
+        `;
+
+        if (locked.deletedAt || (ownerId !== undefined && locked.ownerId !== ownerId)) {
+          throw new SessionNotFoundError(sessionId);
+        }
+
+        const [stored] = await tx.$queryRaw<Array<{ lastPosition: number | null; chars: number }>>`
+          SELECT max("position") AS "lastPosition", COALESCE(sum(char_length("content")), 0)::int AS chars
+          FROM "chat_messages" WHERE "sessionId" = ${sessionId}
+        `;
+        const firstIndex = (stored.lastPosition ?? -1) + 1;
+
+        const errors: ValidationErrorDetail[] = [];
+        validateMessageLimits(messages, 'body.messages', errors, getLimits(), { count: firstIndex, chars: stored.chars });
+        if (errors.length > 0) {
+          throw new SessionLimitError(errors);
+        }
+        const redacted = toRedactedRows(sessionId, messages, firstIndex);
+
+        await tx.chatMessage.createMany({
+          data: redacted.rows,
+        });
+
+        // A newly inserted session starts at the default version of 1
+        const { version } = inserted > 0
+          ? { version: 1 }
+          : await tx.chatSession.update({
+            where: { sessionId },
+            data: { updatedAt: new Date(now), version: { increment: 1 } },
+            select: { version: true },
+          });
+
+        await tx.redactionAudit.createMany({
+          data: redacted.audits(version),
+        });
+
+        // Title the session from its first user message once it has one
+        const title = generateTitle(redacted.messages);
+        if (title) {
+          await tx.chatSession.updateMany({
+            where: { sessionId, title: null },
+            data: { title },
+          });
+        }
+        await recordRevision(tx, sessionId, redacted.messages);
+
+        return {
+          created: inserted > 0,
+          indices: messages.map((_, offset) => firstIndex + offset),
+          messageCount: firstIndex + messages.length,
+          version,
+        };
+      });
+
+      logger.info(
+        { context: { sessionId, appended: messages.length, messageCount: result.messageCount, created: result.created } },
+        'Appended messages to chat session'
+      );
+
+      countSessionOperation('append', 'ok');
+      return result;
+    } catch (error) {
+      if (error instanceof SessionNotFoundError) {
+        countSessionOperation('append', 'not_found');
+        throw error;
+      }
+      if (error instanceof SessionLimitError) {
+        countSessionOperation('append', 'rejected');
+        throw error;
+      }
+      countSessionOperation('append', 'error');
+      logger.error({ context: { sessionId, error } }, 'Failed to append messages');
+      throw databaseError('Failed to append messages', error);
+    }
+  }
+
+  /**
+   * Write a batch of sessions in one transaction.
+   * Session IDs must be unique within the batch.
+   * Returns one outcome per session, in input order.
+   */
+  async importSessions(sessions: ChatSession[], options: ImportSessionsOptions): Promise<ImportOutcome[]> {
+    const { ownerId, onConflict } = options;
+
+    try {
+      const outcomes = await prisma.$transaction(async (tx) => {
+        const existing = await tx.chatSession.findMany({
+          where: { sessionId: { in: sessions.map(session => session.sessionId) } },
+          select: { sessionId: true, ownerId: true, deletedAt: true, title: true },
+        });
+        const rows = new Map(existing.map(row => [row.sessionId, row]));
+
+        const outcomes = sessions.map((session): ImportOutcome => {
+          const row = rows.get(session.sessionId);
+          if (!row) {
+            return 'created';
+          }
+          if (ownerId !== undefined && row.ownerId !== ownerId) {
+            return 'forbidden';
+          }
+          if (row.deletedAt) {
+            return 'trashed';
+          }
+          return onConflict === 'replace' ? 'replaced' : 'exists';
+        });
+
+        const created = sessions.filter((_, index) => outcomes[index] === 'created');
+        const replaced = sessions.filter((_, index) => outcomes[index] === 'replaced');
+
+        const redacted = [...created, ...replaced].map(session => ({
+          session,
+          ...toRedactedRows(session.sessionId, session.messages, 0),
+        }));
+        const titles = new Map(redacted.map(({ session, messages }) => [
+          session.sessionId,
+          session.title?.trim() ?? (rows.get(session.sessionId)?.title ? undefined : generateTitle(messages)),
+        ]));
+
+        await tx.chatSession.createMany({
+          data: created.map(session => ({
+            sessionId: session.sessionId,
+            ownerId,
+            timestamp: new Date(session.timestamp),
+            title: titles.get(session.sessionId),
+            tags: normalizeTags(session.tags ?? []),
+            metadata: session.metadata as any,
+          })),
+        });
+
+        // New sessions start at version 1
+        const versions = new Map(created.map(session => [session.sessionId, 1]));
+
+        for (const session of replaced) {
+          const { version } = await tx.chatSession.update({
+            where: { sessionId: session.sessionId },
+            data: {
+              timestamp: new Date(session.timestamp),
+              title: titles.get(session.sessionId),
+              ...(session.tags && { tags: normalizeTags(session.tags) }),
+              metadata: session.metadata as any,
+              version: { increment: 1 },
+            },
+            select: { version: true },
+          });
+          versions.set(session.sessionId, version);
+        }
+
+        await tx.chatMessage.deleteMany({
+          where: { sessionId: { in: replaced.map(session => session.sessionId) } },
+        });
+        await tx.chatMessage.createMany({
+          data: redacted.flatMap(({ rows }) => rows),
+        });
+        await tx.redactionAudit.createMany({
+          data: redacted.flatMap(({ session, audits }) => audits(versions.get(session.sessionId)!)),
+        });
+        await tx.chatRevision.createMany({
+          data: redacted.map(({ session, messages }) => toRevisionRow(session, messages, versions.get(session.sessionId)!)),
+        });
+
+        return outcomes;
+      });
+
+      logger.info(
+        { context: { sessions: sessions.length, created: outcomes.filter(outcome => outcome === 'created').length } },
+        'Imported chat sessions'
+      );
+      const written = outcomes.filter(outcome => outcome === 'created' || outcome === 'replaced').length;
+      countSessionOperation('import', 'ok', written);
+      countSessionOperation('import', 'rejected', outcomes.length - written);
+      return outcomes;
+    } catch (error) {
+      countSessionOperation('import', 'error', sessions.length);
+      logger.error({ context: { sessions: sessions.length, error } }, 'Failed to import sessions');
+      throw databaseError('Failed to import chat sessions', error);
+    }
+  }
+
+  /**
+   * Create a new session from a session's messages up to and including
+   * messageIndex. The fork keeps the parent's title, tags and metadata and
+   * records the parent and the fork point. Returns the fork's message count and version.
+   */
+  async forkSession(
+    sessionId: string,
+    forkSessionId: string,
+    messageIndex: number,
+    ownerId?: string
+  ): Promise<{ messageCount: number; version: number }> {
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const parent = await tx.chatSession.findFirst({
+          where: { sessionId, ...activeFor(ownerId) },
+          select: { ownerId: true, title: true, tags: true, metadata: true, _count: { select: { messages: true } } },
+        });
+
+        if (!parent) {
+          throw new SessionNotFoundError(sessionId);
+        }
+        if (messageIndex >= parent._count.messages) {
+          throw new InvalidForkPointError(parent._count.messages);
+        }
+
+        const rows = await tx.chatMessage.findMany({
+          where: { sessionId, position: { lte: messageIndex } },
+          orderBy: { position: 'asc' },
+        });
+        const messages = rows.map(toMessage);
+        const fork: ChatSession = {
+          sessionId: forkSessionId,
+          messages,
+          timestamp: new Date().toISOString(),
+          metadata: parent.metadata as any,
+        };
+
+        const { version } = await tx.chatSession.create({
+          data: {
+            sessionId: forkSessionId,
+            ownerId: parent.ownerId,
+            timestamp: new Date(fork.timestamp),
+            title: parent.title,
+            tags: parent.tags,
+            metadata: fork.metadata,
+            parentSessionId: sessionId,
+            forkPoint: messageIndex,
+          },
+          select: { version: true },
+        });
+
+        // Parent messages are already redacted, so they are copied as stored
+        await tx.chatMessage.createMany({
+          data: toMessageRows(forkSessionId, messages, 0),
+        });
+        await tx.chatRevision.create({
+          data: toRevisionRow(fork, messages, version),
+        });
+
+        return { messageCount: messages.length, version };
+      });
+
+      logger.info(
+        { context: { sessionId, forkSessionId, forkPoint: messageIndex, messageCount: result.messageCount } },
+        'Forked chat session'
+      );
+      return result;
+    } catch (error) {
+      if (error instanceof SessionNotFoundError || error instanceof InvalidForkPointError) {
+        throw error;
+      }
+      logger.error({ context: { sessionId, forkSessionId, error } }, 'Failed to fork session');
+      throw databaseError('Failed to fork chat session', error);
+    }
+  }
+
+  /**
+   * Change a session's title, tags or metadata without touching its messages.
+   * A null title is replaced by one generated from the first user message.
+   * Honors options.ifMatch like saveSession; a session that does not exist,
+   * belongs to another owner or is in the trash raises SessionNotFoundError.
+   * Returns the new version.
+   */
+  async updateSession(sessionId: string, changes: UpdateSessionRequest, options: SaveSessionOptions = {}): Promise<number> {
+    const { ownerId, ifMatch } = options;
+
+    try {
+      const version = await prisma.$transaction(async (tx) => {
+        const session = await tx.chatSession.findFirst({
+          where: { sessionId, ...activeFor(ownerId) },
+          select: { version: true },
+        });
+
+        if (!session) {
+          throw new SessionNotFoundError(sessionId);
+        }
+        if (ifMatch !== undefined && ifMatch !== '*' && session.version !== ifMatch) {
+          throw new VersionConflictError(null);
+        }
+
+        let title: string | null | undefined = changes.title?.trim();
+        if (changes.title === null) {
+          const messages = await tx.chatMessage.findMany({
+            where: { sessionId, role: 'user' },
+            orderBy: { position: 'asc' },
+            take: 1,
+            select: { role: true, content: true },
+          });
+          title = generateTitle(messages);
+        }
+
+        const { count } = await tx.chatSession.updateMany({
+          where: { sessionId, version: session.version },
+          data: {
+            ...(title !== undefined && { title }),
+            ...(changes.tags && { tags: normalizeTags(changes.tags) }),
+            ...(changes.metadata && { metadata: changes.metadata }),
+            version: { increment: 1 },
+          },
+        });
+
+        // Another write landed between the read and the update
+        if (count === 0) {
+          throw new VersionConflictError(null);
+        }
+        await recordRevision(tx, sessionId);
+
+        return session.version + 1;
+      });
+
+      logger.info({ context: { sessionId, fields: Object.keys(changes), version } }, 'Updated chat session');
+      countSessionOperation('update', 'ok');
+      return version;
+    } catch (error) {
+      if (error instanceof SessionNotFoundError) {
+        countSessionOperation('update', 'not_found');
+        throw error;
+      }
+      if (error instanceof VersionConflictError) {
+        countSessionOperation('update', 'rejected');
+        logger.warn({ context: { sessionId, ifMatch } }, 'Chat session version conflict');
+        throw new VersionConflictError(await this.getSession(sessionId, ownerId));
+      }
+      countSessionOperation('update', 'error');
+      logger.error({ context: { sessionId, error } }, 'Failed to update session');
+      throw databaseError('Failed to update chat session', error);
     }
   }
 
   /**
    * Get a chat session by ID
    */
-  async getSession(sessionId: string): Promise<ChatSession | null> {
+  async getSession(sessionId: string, ownerId?: string): Promise<ChatSession | null> {
+    try {
+      const session = await prisma.chatSession.findFirst({
+        where: { sessionId, ...activeFor(ownerId) },
+        include: withMessages,
+      });
+
+      if (!session) {
+        countSessionOperation('read', 'not_found');
+        return null;
+      }
+
+      countSessionOperation('read', 'ok');
+      return toChatSession(session);
+    } catch (error) {
+      countSessionOperation('read', 'error');
+      logger.error({ context: { sessionId, error } }, 'Failed to get session');
+      throw databaseError('Failed to get chat session', error);
+    }
+  }
+
+  /**
+   * Get the parent and the forks of a session
+   * Returns null when the session does not exist
+   */
+  async getLineage(sessionId: string, ownerId?: string): Promise<SessionLineage | null> {
     try {
-      const session = await prisma.chatSession.findUnique({
-        where: { sessionId },
+      const session = await prisma.chatSession.findFirst({
+        where: { sessionId, ...activeFor(ownerId) },
+        select: {
+          parentSessionId: true,
+          forkPoint: true,
+          forks: {
+            where: activeFor(ownerId),
+            orderBy: { createdAt: 'asc' },
+            select: { sessionId: true, forkPoint: true, createdAt: true },
+          },
+        },
       });
 
       if (!session) {
@@ -53,63 +987,540 @@ class StorageService {
       }
 
       return {
-        sessionId: session.sessionId,
-        messages: session.messages as any,
-        timestamp: session.timestamp.toISOString(),
-        metadata: session.metadata as any,
+        parent: session.parentSessionId !== null && session.forkPoint !== null
+          ? { sessionId: session.parentSessionId, forkPoint: session.forkPoint }
+          : null,
+        forks: session.forks.map(fork => ({
+          sessionId: fork.sessionId,
+          forkPoint: fork.forkPoint!,
+          createdAt: fork.createdAt.toISOString(),
+        })),
       };
     } catch (error) {
-      logger.error({ context: { sessionId, error } }, 'Failed to get session');
-      return null;
+      logger.error({ context: { sessionId, error } }, 'Failed to get session lineage');
+      throw databaseError('Failed to get chat session lineage', error);
     }
   }
 
   /**
    * Get all sessions
    */
-  async getAllSessions(): Promise<ChatSession[]> {
+  async getAllSessions(ownerId?: string): Promise<ChatSession[]> {
     try {
       const sessions = await prisma.chatSession.findMany({
+        where: activeFor(ownerId),
         orderBy: { timestamp: 'desc' },
+        include: withMessages,
       });
 
-      return sessions.map(session => ({
-        sessionId: session.sessionId,
-        messages: session.messages as any,
-        timestamp: session.timestamp.toISOString(),
-        metadata: session.metadata as any,
-      }));
+      return sessions.map(toChatSession);
     } catch (error) {
       logger.error({ context: { error } }, 'Failed to get all sessions');
-      return [];
+      throw databaseError('Failed to get chat sessions', error);
+    }
+  }
+
+  /**
+   * List sessions one page at a time using cursor pagination
+   */
+  async listSessions(options: ListSessionsOptions): Promise<PaginatedResult<ChatSession>> {
+    try {
+      const rows = await prisma.chatSession.findMany({
+        ...pageQuery(options),
+        include: withMessages,
+      });
+
+      return toPage(rows, options.limit, toChatSession);
+    } catch (error) {
+      logger.error({ context: { options, error } }, 'Failed to list sessions');
+      throw databaseError('Failed to list chat sessions', error);
+    }
+  }
+
+  /**
+   * List session summaries using cursor pagination.
+   * Only the message count and first user message are loaded, never full transcripts.
+   */
+  async listSessionSummaries(options: ListSessionsOptions): Promise<PaginatedResult<ChatSessionSummary>> {
+    try {
+      const rows = await prisma.chatSession.findMany({
+        ...pageQuery(options),
+        include: summaryInclude,
+      });
+
+      return toPage(rows, options.limit, toSummary);
+    } catch (error) {
+      logger.error({ context: { options, error } }, 'Failed to list session summaries');
+      throw databaseError('Failed to list chat session summaries', error);
     }
   }
 
   /**
-   * Delete a session
+   * Full-text search over message content.
+   * Returns the best matching sessions first, each with the indices of its
+   * matching messages and highlighted snippets from the best of them.
    */
-  async deleteSession(sessionId: string): Promise<boolean> {
+  async searchSessions(options: SearchSessionsOptions): Promise<ChatSearchResult[]> {
+    const { query, ownerId, limit } = options;
+
     try {
-      await prisma.chatSession.delete({
-        where: { sessionId },
+      const rows = await prisma.$queryRaw<Array<{
+        sessionId: string;
+        timestamp: Date;
+        score: number;
+        position: number;
+        rank: number;
+        snippet: string | null;
+      }>>`
+        WITH search AS (
+          SELECT websearch_to_tsquery('english', ${query}) AS query
+        ),
+        matches AS (
+          SELECT
+            m."sessionId",
+            m."position",
+            m."content",
+            ts_rank(m."searchVector", search.query) AS rank,
+            row_number() OVER (
+              PARTITION BY m."sessionId"
+              ORDER BY ts_rank(m."searchVector", search.query) DESC, m."position"
+            ) AS "rankInSession"
+          FROM "chat_messages" m
+          JOIN "chat_sessions" s ON s."sessionId" = m."sessionId"
+          CROSS JOIN search
+          WHERE m."searchVector" @@ search.query
+            AND s."deletedAt" IS NULL
+          ${ownerId === undefined ? Prisma.empty : Prisma.sql`AND s."ownerId" = ${ownerId}`}
+        ),
+        top AS (
+          SELECT "sessionId", max(rank) AS score
+          FROM matches
+          GROUP BY "sessionId"
+          ORDER BY score DESC, "sessionId"
+          LIMIT ${limit}
+        )
+        SELECT
+          top."sessionId",
+          s."timestamp",
+          top.score::float8 AS score,
+          matches."position",
+          matches.rank::float8 AS rank,
+          CASE WHEN matches."rankInSession" <= ${SNIPPETS_PER_RESULT}
+            THEN ts_headline('english', matches."content", search.query, ${HEADLINE_OPTIONS})
+          END AS snippet
+        FROM top
+        JOIN matches ON matches."sessionId" = top."sessionId"
+        JOIN "chat_sessions" s ON s."sessionId" = top."sessionId"
+        CROSS JOIN search
+        ORDER BY top.score DESC, top."sessionId", matches."position"
+      `;
+
+      const results = new Map<string, ChatSearchResult>();
+      const ranks = new Map<SearchSnippet, number>();
+
+      for (const row of rows) {
+        let result = results.get(row.sessionId);
+        if (!result) {
+          result = {
+            sessionId: row.sessionId,
+            timestamp: row.timestamp.toISOString(),
+            score: row.score,
+            matchedIndices: [],
+            snippets: [],
+          };
+          results.set(row.sessionId, result);
+        }
+        result.matchedIndices.push(row.position);
+        if (row.snippet !== null) {
+          const snippet = { index: row.position, text: row.snippet };
+          result.snippets.push(snippet);
+          ranks.set(snippet, row.rank);
+        }
+      }
+
+      // Best matching snippets first, ties in transcript order
+      for (const result of results.values()) {
+        result.snippets.sort((a, b) => ranks.get(b)! - ranks.get(a)! || a.index - b.index);
+      }
+
+      return [...results.values()];
+    } catch (error) {
+      logger.error({ context: { query, error } }, 'Failed to search sessions');
+      throw databaseError('Failed to search chat sessions', error);
+    }
+  }
+
+  /**
+   * Move a session to the trash
+   * Returns false when the session does not exist or is already in the trash
+   */
+  async deleteSession(sessionId: string, ownerId?: string): Promise<boolean> {
+    try {
+      const { count } = await prisma.chatSession.updateMany({
+        where: { sessionId, ...activeFor(ownerId) },
+        data: { deletedAt: new Date() },
       });
-      logger.info({ context: { sessionId } }, 'Deleted session');
+      if (count === 0) {
+        return false;
+      }
+      logger.info({ context: { sessionId } }, 'Moved session to trash');
       return true;
     } catch (error) {
       logger.error({ context: { sessionId, error } }, 'Failed to delete session');
-      return false;
+      throw databaseError('Failed to delete chat session', error);
+    }
+  }
+
+  /**
+   * Move many sessions to the trash at once, by ID and/or by a timestamp cutoff.
+   * When both are given, only sessions matching both are deleted.
+   * Returns the number of deleted sessions.
+   */
+  async deleteSessions(criteria: { sessionIds?: string[]; before?: Date; ownerId?: string }): Promise<number> {
+    // Guard against an empty filter wiping the whole table
+    if (!criteria.sessionIds && !criteria.before) {
+      throw new Error('Bulk delete requires sessionIds or before');
+    }
+
+    try {
+      const { count } = await prisma.chatSession.updateMany({
+        where: {
+          ...activeFor(criteria.ownerId),
+          ...(criteria.sessionIds && { sessionId: { in: criteria.sessionIds } }),
+          ...(criteria.before && { timestamp: { lt: criteria.before } }),
+        },
+        data: { deletedAt: new Date() },
+      });
+      logger.info(
+        { context: { deletedCount: count, sessionIds: criteria.sessionIds?.length, before: criteria.before } },
+        'Moved sessions to trash'
+      );
+      return count;
+    } catch (error) {
+      logger.error({ context: { error } }, 'Failed to delete sessions');
+      throw databaseError('Failed to delete chat sessions', error);
+    }
+  }
+
+  /**
+   * List summaries of sessions in the trash using cursor pagination
+   */
+  async listTrash(options: ListSessionsOptions): Promise<PaginatedResult<TrashedSessionSummary>> {
+    try {
+      const rows = await prisma.chatSession.findMany({
+        ...pageQuery(options, true),
+        include: summaryInclude,
+      });
+
+      return toPage(rows, options.limit, session => ({
+        ...toSummary(session),
+        deletedAt: session.deletedAt!.toISOString(),
+      }));
+    } catch (error) {
+      logger.error({ context: { options, error } }, 'Failed to list trash');
+      throw databaseError('Failed to list trashed chat sessions', error);
+    }
+  }
+
+  /**
+   * Take a session back out of the trash
+   * Returns the new version, or null when the session is not in the trash
+   */
+  async restoreSession(sessionId: string, ownerId?: string): Promise<number | null> {
+    try {
+      const version = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.chatSession.updateMany({
+          where: { sessionId, ...trashedFor(ownerId) },
+          data: { deletedAt: null, version: { increment: 1 } },
+        });
+        if (count === 0) {
+          return null;
+        }
+
+        return recordRevision(tx, sessionId);
+      });
+
+      if (version === null) {
+        return null;
+      }
+      logger.info({ context: { sessionId, version } }, 'Restored session from trash');
+      return version;
+    } catch (error) {
+      logger.error({ context: { sessionId, error } }, 'Failed to restore session');
+      throw databaseError('Failed to restore chat session', error);
+    }
+  }
+
+  /**
+   * Permanently delete sessions that were moved to the trash before the cutoff.
+   * Rows are removed in batches to keep each statement short.
+   * Returns the number of purged sessions.
+   */
+  async purgeTrash(deletedBefore: Date, batchSize = 500): Promise<number> {
+    let purged = 0;
+
+    try {
+      for (;;) {
+        const batch = await prisma.chatSession.findMany({
+          where: { deletedAt: { lt: deletedBefore } },
+          select: { id: true },
+          take: batchSize,
+        });
+        if (batch.length === 0) {
+          break;
+        }
+
+        const { count } = await prisma.chatSession.deleteMany({
+          where: { id: { in: batch.map(row => row.id) }, deletedAt: { lt: deletedBefore } },
+        });
+        purged += count;
+
+        if (batch.length < batchSize) {
+          break;
+        }
+      }
+
+      logger.info({ context: { purged, deletedBefore } }, 'Purged trashed sessions');
+      return purged;
+    } catch (error) {
+      logger.error({ context: { purged, deletedBefore, error } }, 'Failed to purge trash');
+      throw databaseError('Failed to purge trashed chat sessions', error);
+    }
+  }
+
+  /**
+   * Give sessions saved before authentication, which have no owner, to a principal.
+   * Returns the number of claimed sessions.
+   */
+  async claimOwnerlessSessions(ownerId: string): Promise<number> {
+    try {
+      const { count } = await prisma.chatSession.updateMany({
+        where: { ownerId: null },
+        data: { ownerId },
+      });
+      logger.info({ context: { ownerId, claimed: count } }, 'Claimed ownerless sessions');
+      return count;
+    } catch (error) {
+      logger.error({ context: { ownerId, error } }, 'Failed to claim ownerless sessions');
+      throw databaseError('Failed to claim ownerless chat sessions', error);
+    }
+  }
+
+  /**
+   * Count the sessions each expiry rule would remove
+   */
+  async countExpiredSessions(rules: ExpiryRule[]): Promise<number[]> {
+    if (rules.length === 0) {
+      return [];
+    }
+
+    try {
+      const counts = rules.map((_, index) => Prisma.sql`count(*) FILTER (WHERE ${expiryCondition(rules, index)})::int`);
+      const [row] = await prisma.$queryRaw<Array<{ counts: number[] }>>`
+        SELECT ARRAY[${Prisma.join(counts)}] AS counts FROM "chat_sessions"
+      `;
+      return row.counts;
+    } catch (error) {
+      logger.error({ context: { error } }, 'Failed to count expired sessions');
+      throw databaseError('Failed to count expired chat sessions', error);
+    }
+  }
+
+  /**
+   * Find up to limit sessions that have expired under any of the rules
+   */
+  async findExpiredSessions(rules: ExpiryRule[], limit: number): Promise<Array<{ id: string; sessionId: string }>> {
+    if (rules.length === 0) {
+      return [];
+    }
+
+    try {
+      return await prisma.$queryRaw<Array<{ id: string; sessionId: string }>>`
+        SELECT "id", "sessionId" FROM "chat_sessions"
+        WHERE ${Prisma.join(rules.map((_, index) => expiryCondition(rules, index)), ' OR ')}
+        ORDER BY "id"
+        LIMIT ${limit}
+      `;
+    } catch (error) {
+      logger.error({ context: { error } }, 'Failed to find expired sessions');
+      throw databaseError('Failed to find expired chat sessions', error);
+    }
+  }
+
+  /**
+   * Permanently delete sessions by row id, bypassing the trash.
+   * Returns the number of deleted sessions.
+   */
+  async purgeSessions(ids: string[]): Promise<number> {
+    try {
+      const { count } = await prisma.chatSession.deleteMany({ where: { id: { in: ids } } });
+      return count;
+    } catch (error) {
+      logger.error({ context: { sessions: ids.length, error } }, 'Failed to purge sessions');
+      throw databaseError('Failed to purge chat sessions', error);
+    }
+  }
+
+  /**
+   * Move sessions to the trash by row id.
+   * Returns the number of sessions moved.
+   */
+  async archiveSessions(ids: string[]): Promise<number> {
+    try {
+      const { count } = await prisma.chatSession.updateMany({
+        where: { id: { in: ids }, deletedAt: null },
+        data: { deletedAt: new Date() },
+      });
+      return count;
+    } catch (error) {
+      logger.error({ context: { sessions: ids.length, error } }, 'Failed to archive sessions');
+      throw databaseError('Failed to archive chat sessions', error);
+    }
+  }
+
+  /**
+   * Get the redaction audit of a session, oldest first
+   * Returns null when the session does not exist
+   */
+  async getRedactionAudit(sessionId: string, ownerId?: string): Promise<RedactionAuditEntry[] | null> {
+    try {
+      const session = await prisma.chatSession.findFirst({
+        where: { sessionId, ...activeFor(ownerId) },
+        select: {
+          redactionAudits: {
+            orderBy: [{ version: 'asc' }, { messageIndex: 'asc' }, { detector: 'asc' }],
+          },
+        },
+      });
+
+      if (!session) {
+        return null;
+      }
+
+      return session.redactionAudits.map(audit => ({
+        version: audit.version,
+        messageIndex: audit.messageIndex,
+        detector: audit.detector,
+        mode: audit.mode as RedactionAuditEntry['mode'],
+        count: audit.count,
+        createdAt: audit.createdAt.toISOString(),
+      }));
+    } catch (error) {
+      logger.error({ context: { sessionId, error } }, 'Failed to get redaction audit');
+      throw databaseError('Failed to get redaction audit', error);
+    }
+  }
+
+  /**
+   * List a session's revisions, newest first
+   * Returns null when the session does not exist
+   */
+  async listRevisions(sessionId: string, ownerId?: string): Promise<ChatRevisionSummary[] | null> {
+    try {
+      const session = await prisma.chatSession.findFirst({
+        where: { sessionId, ...activeFor(ownerId) },
+        select: {
+          revisions: {
+            orderBy: { version: 'desc' },
+            select: { version: true, messageCount: true, timestamp: true, createdAt: true },
+          },
+        },
+      });
+
+      return session ? session.revisions.map(toRevisionSummary) : null;
+    } catch (error) {
+      logger.error({ context: { sessionId, error } }, 'Failed to list revisions');
+      throw databaseError('Failed to list chat session revisions', error);
+    }
+  }
+
+  /**
+   * Get one revision of a session
+   * Returns null when the session or the revision does not exist
+   */
+  async getRevision(sessionId: string, version: number, ownerId?: string): Promise<ChatRevision | null> {
+    try {
+      const revision = await prisma.chatRevision.findFirst({
+        where: { sessionId, version, session: activeFor(ownerId) },
+      });
+
+      if (!revision) {
+        return null;
+      }
+
+      return {
+        sessionId: revision.sessionId,
+        ...toRevisionSummary(revision),
+        messages: revision.baseVersion === null
+          ? revision.messages as unknown as Message[]
+          : await loadRevisionMessages(prisma, sessionId, version),
+        metadata: revision.metadata as any,
+      };
+    } catch (error) {
+      logger.error({ context: { sessionId, version, error } }, 'Failed to get revision');
+      throw databaseError('Failed to get chat session revision', error);
+    }
+  }
+
+  /**
+   * Drop all but the newest `keep` revisions of every session. The oldest
+   * revision kept is rewritten in full first, so the newer ones stored on top
+   * of it can still be rebuilt. Returns the number of deleted revisions.
+   */
+  async pruneRevisions(keep: number, batchSize = 100): Promise<number> {
+    let pruned = 0;
+
+    try {
+      for (;;) {
+        const sessions = await prisma.$queryRaw<Array<{ sessionId: string; oldestKept: number }>>`
+          SELECT "sessionId", (array_agg("version" ORDER BY "version" DESC))[${keep}::int] AS "oldestKept"
+          FROM "chat_revisions"
+          GROUP BY "sessionId"
+          HAVING count(*) > ${keep}
+          LIMIT ${batchSize}
+        `;
+
+        for (const { sessionId, oldestKept } of sessions) {
+          pruned += await prisma.$transaction(async (tx) => {
+            const where = { sessionId_version: { sessionId, version: oldestKept } };
+            const oldest = await tx.chatRevision.findUnique({ where, select: { baseVersion: true } });
+            if (oldest && oldest.baseVersion !== null) {
+              const messages = await loadRevisionMessages(tx, sessionId, oldestKept);
+              await tx.chatRevision.update({
+                where,
+                data: { baseVersion: null, messages: messages as unknown as Prisma.InputJsonValue },
+              });
+            }
+
+            const { count } = await tx.chatRevision.deleteMany({
+              where: { sessionId, version: { lt: oldestKept } },
+            });
+            return count;
+          });
+        }
+
+        if (sessions.length < batchSize) {
+          break;
+        }
+      }
+
+      logger.info({ context: { pruned, keep } }, 'Pruned chat session revisions');
+      return pruned;
+    } catch (error) {
+      logger.error({ context: { pruned, keep, error } }, 'Failed to prune revisions');
+      throw databaseError('Failed to prune chat session revisions', error);
     }
   }
 
   /**
    * Get session count
    */
-  async getSessionCount(): Promise<number> {
+  async getSessionCount(ownerId?: string): Promise<number> {
     try {
-      return await prisma.chatSession.count();
+      return await prisma.chatSession.count({ where: activeFor(ownerId) });
     } catch (error) {
       logger.error({ context: { error } }, 'Failed to get session count');
-      return 0;
+      throw databaseError('Failed to count chat sessions', error);
     }
   }
 }
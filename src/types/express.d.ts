@@ -0,0 +1,14 @@
+import type { Principal } from './index.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the authenticate middleware */
+      principal?: Principal;
+      /** Set by the requestContext middleware; also sent as X-Request-Id */
+      requestId?: string;
+    }
+  }
+}
+
+export {};
@@ -9,25 +9,429 @@ export interface Message {
   timestamp?: string;
 }
 
+/**
+ * Client-defined string values; userAgent and clientVersion are read by analytics and exports
+ */
+export interface SessionMetadata {
+  userAgent?: string;
+  clientVersion?: string;
+  [key: string]: string | undefined;
+}
+
 export interface ChatSession {
   sessionId: string;
   messages: Message[];
   timestamp: string;
-  metadata?: {
-    userAgent?: string;
-    clientVersion?: string;
-  };
+  /** Generated from the first user message when not set by the client */
+  title?: string | null;
+  tags?: string[];
+  metadata?: SessionMetadata;
+  version?: number;
+  /** Only returned when fetching a single session */
+  lineage?: SessionLineage;
+}
+
+/**
+ * A session forked from another one
+ */
+export interface SessionFork {
+  sessionId: string;
+  /** Index of the last parent message copied into the fork */
+  forkPoint: number;
+  createdAt: string;
+}
+
+/**
+ * Where a session was forked from and which sessions were forked from it
+ */
+export interface SessionLineage {
+  parent: { sessionId: string; forkPoint: number } | null;
+  forks: SessionFork[];
 }
 
 export interface SaveChatRequest {
   sessionId: string;
   messages: Message[];
   timestamp: string;
+  title?: string;
+  tags?: string[];
+  metadata?: ChatSession['metadata'];
+}
+
+/**
+ * Changes to a session's details; omitted fields are left as they are.
+ * A null title is replaced by one generated from the first user message.
+ */
+export interface UpdateSessionRequest {
+  title?: string | null;
+  tags?: string[];
+  metadata?: ChatSession['metadata'];
+}
+
+export interface AppendMessagesRequest {
+  messages: Message[];
+  timestamp?: string;
+}
+
+export interface AppendMessagesResponse {
+  success: boolean;
+  sessionId: string;
+  created: boolean;
+  indices: number[];
+  messageCount: number;
+  version: number;
+}
+
+export interface BulkDeleteRequest {
+  sessionIds?: string[];
+  before?: string;
 }
 
 export interface SaveChatResponse {
   success: boolean;
   sessionId: string;
+  version: number;
   message: string;
 }
 
+export interface ForkSessionRequest {
+  messageIndex: number;
+}
+
+export interface ForkSessionResponse extends SaveChatResponse {
+  parentSessionId: string;
+  forkPoint: number;
+  messageCount: number;
+}
+
+
+/**
+ * Size limits enforced on incoming chat data, reported to clients
+ */
+export interface RequestLimits {
+  /** Largest accepted JSON request body, in bytes; also the longest JSONL import line */
+  maxBodyBytes: number;
+  /** Largest accepted JSONL import upload, in bytes */
+  maxImportBytes: number;
+  maxMessagesPerSession: number;
+  maxMessageChars: number;
+  /** Combined content length of all messages in a session */
+  maxSessionChars: number;
+}
+
+/**
+ * Fixed sections of a generated technical spec document
+ */
+export interface TechSpecSections {
+  overview: string;
+  goals: string[];
+  nonGoals: string[];
+  requirements: string[];
+  architecture: string[];
+  openQuestions: string[];
+  risks: string[];
+}
+
+export interface TechSpec extends TechSpecSections {
+  id: string;
+  sessionId: string;
+  generator: string;
+  createdAt: string;
+}
+
+export type SessionSortField = 'timestamp' | 'createdAt' | 'updatedAt';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Options for listing chat sessions one page at a time
+ */
+export interface ListSessionsOptions {
+  ownerId?: string;
+  limit: number;
+  cursor?: string;
+  sortBy: SessionSortField;
+  order: SortOrder;
+  timestampFrom?: Date;
+  timestampTo?: Date;
+  createdFrom?: Date;
+  createdTo?: Date;
+  /** Only sessions carrying every one of these tags */
+  tags?: string[];
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Lightweight projection of a chat session without message bodies
+ */
+export interface ChatSessionSummary {
+  sessionId: string;
+  timestamp: string;
+  messageCount: number;
+  title: string | null;
+  tags: string[];
+  preview: string | null;
+  lastActivity: string;
+  metadata?: ChatSession['metadata'];
+}
+
+export interface TrashedSessionSummary extends ChatSessionSummary {
+  deletedAt: string;
+}
+
+export type RedactionMode = 'mask' | 'hash';
+
+/**
+ * Audit entry for values redacted from one message. The original values are
+ * never stored.
+ */
+export interface RedactionAuditEntry {
+  /** Session version the redaction was written with */
+  version: number;
+  messageIndex: number;
+  detector: string;
+  mode: RedactionMode;
+  count: number;
+  createdAt: string;
+}
+
+/**
+ * A stored revision of a session, without its messages
+ */
+export interface ChatRevisionSummary {
+  /** Session version the revision was written as */
+  version: number;
+  messageCount: number;
+  timestamp: string;
+  createdAt: string;
+}
+
+/**
+ * Immutable snapshot of a session as saved at one version
+ */
+export interface ChatRevision extends ChatRevisionSummary {
+  sessionId: string;
+  messages: Message[];
+  metadata?: ChatSession['metadata'];
+}
+
+/**
+ * One difference between two revisions. Indices refer to the message's
+ * position in the older (fromIndex) and newer (toIndex) transcript.
+ */
+export type MessageChange =
+  | { type: 'added'; toIndex: number; message: Message }
+  | { type: 'removed'; fromIndex: number; message: Message }
+  | { type: 'edited'; fromIndex: number; toIndex: number; before: Message; after: Message };
+
+export interface RevisionDiff {
+  sessionId: string;
+  from: number;
+  to: number;
+  summary: {
+    added: number;
+    removed: number;
+    edited: number;
+    unchanged: number;
+  };
+  changes: MessageChange[];
+}
+
+export type RetentionField = 'timestamp' | 'updatedAt';
+
+/**
+ * delete removes sessions permanently; archive moves them to the trash
+ */
+export type RetentionAction = 'delete' | 'archive';
+
+export interface RetentionRule {
+  /** Matches sessions whose metadata has all of these values */
+  metadata: SessionMetadata;
+  maxAgeDays: number;
+  field?: RetentionField;
+}
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  field: RetentionField;
+  /** Maximum age of sessions not matched by a rule; undefined keeps them */
+  maxAgeDays?: number;
+  rules: RetentionRule[];
+  action: RetentionAction;
+  intervalMinutes: number;
+  batchSize: number;
+}
+
+export interface RetentionRuleReport {
+  field: RetentionField;
+  maxAgeDays: number;
+  metadata: RetentionRule['metadata'] | null;
+  cutoff: string;
+  matched: number;
+}
+
+export interface RetentionDryRun {
+  enabled: boolean;
+  action: RetentionAction;
+  evaluatedAt: string;
+  total: number;
+  rules: RetentionRuleReport[];
+  sample: string[];
+}
+
+export type ExportFormat = 'markdown' | 'html' | 'jsonl' | 'txt';
+
+export type ImportFormat = 'auto' | 'native' | 'chatgpt' | 'claude';
+
+/**
+ * What to do when an imported session ID already exists
+ */
+export type ImportConflictMode = 'replace' | 'skip';
+
+export interface ImportRecordResult {
+  /** 1-based line number in the upload */
+  line: number;
+  sessionId?: string;
+  status: 'imported' | 'skipped' | 'failed';
+  action?: 'created' | 'replaced';
+  reason?: string;
+}
+
+export interface ImportReport {
+  total: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  records: ImportRecordResult[];
+}
+
+export interface SearchSessionsOptions {
+  query: string;
+  ownerId?: string;
+  limit: number;
+}
+
+/**
+ * Highlighted excerpt of a matching message; matched terms are wrapped in <mark>
+ */
+export interface SearchSnippet {
+  index: number;
+  text: string;
+}
+
+/**
+ * A chat session that matched a full-text search
+ */
+export interface ChatSearchResult {
+  sessionId: string;
+  timestamp: string;
+  /** Relevance of the best matching message */
+  score: number;
+  /** Indices of every matching message, in transcript order */
+  matchedIndices: number[];
+  /** Snippets from the best matching messages */
+  snippets: SearchSnippet[];
+}
+
+export type AnalyticsInterval = 'day' | 'week';
+
+/**
+ * Options for computing usage statistics
+ */
+export interface AnalyticsOptions {
+  /** Only this owner's sessions; omit for every session */
+  ownerId?: string;
+  /** Inclusive range on the session timestamp */
+  from?: Date;
+  to?: Date;
+  interval: AnalyticsInterval;
+}
+
+/**
+ * Usage statistics over the sessions in a date range.
+ * Sessions in the trash are not counted.
+ */
+export interface AnalyticsReport {
+  from: string | null;
+  to: string | null;
+  interval: AnalyticsInterval;
+  sessions: {
+    total: number;
+    /** New sessions per day or week (weeks start on Monday), including empty periods */
+    perPeriod: Array<{ period: string; sessions: number }>;
+  };
+  messagesPerSession: {
+    average: number;
+    p50: number;
+    p95: number;
+  };
+  messages: {
+    total: number;
+    user: number;
+    model: number;
+    /** User messages per model message, or null without model messages */
+    userToModelRatio: number | null;
+  };
+  /** Average message length in characters */
+  averageContentLength: {
+    all: number;
+    user: number;
+    model: number;
+  };
+  /** Client versions reported in session metadata, most sessions first */
+  clientVersions: Array<{ clientVersion: string; sessions: number; lastActivity: string }>;
+}
+
+/**
+ * up: working; down: failing, so the instance is not ready;
+ * skipped: not used in this environment
+ */
+export type DependencyStatus = 'up' | 'down' | 'skipped';
+
+export interface DependencyCheck {
+  status: DependencyStatus;
+  /** Time the check took, in milliseconds */
+  latencyMs: number;
+  /** Why the check failed or was skipped */
+  message?: string;
+}
+
+/**
+ * Migration check; the counts are absent when the migrations table could not be read
+ */
+export interface MigrationCheck extends DependencyCheck {
+  /** Migrations applied to the database */
+  applied?: number;
+  /** Migrations shipped with the app but not applied */
+  pending?: string[];
+  /** Migrations that failed or are still running */
+  failed?: string[];
+}
+
+/**
+ * Readiness of the instance to serve traffic: ready when no dependency is down
+ */
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  timestamp: string;
+  checks: {
+    database: DependencyCheck;
+    migrations: MigrationCheck;
+    secretManager: DependencyCheck;
+  };
+}
+
+export type PrincipalRole = 'user' | 'admin';
+
+/**
+ * Authenticated caller, attached to the request as req.principal
+ */
+export interface Principal {
+  id: string;
+  role: PrincipalRole;
+  method: 'api-key' | 'jwt';
+}
@@ -1,21 +1,36 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import request from 'supertest';
+import { createHmac } from 'crypto';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import routes from '../../src/routes/index';
-import { errorHandler } from '../../src/middleware/index';
+import { errorHandler, requestContext } from '../../src/middleware/index';
 import { prisma } from '../../src/config/database';
+import { getLimits } from '../../src/config/limits';
 
 // Create test app
 const app = express();
+app.use(requestContext);
 app.use(helmet());
 app.use(cors());
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ limit: getLimits().maxBodyBytes }));
+app.use(express.urlencoded({ extended: true, limit: getLimits().maxBodyBytes }));
 app.use('/api', routes);
 app.use(errorHandler);
 
+// Requests authenticated as 'test-user'
+const api = request.agent(app).set('Authorization', 'Bearer test-key');
+// Requests authenticated as 'other-user'
+const otherApi = request.agent(app).set('X-API-Key', 'other-key');
+
+function signJwt(claims: Record<string, unknown>, secret = 'test-jwt-secret'): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
 describe('API Endpoints', () => {
   beforeAll(async () => {
     // Ensure database is clean
@@ -34,7 +49,7 @@ describe('API Endpoints', () => {
 
   describe('GET /api/health', () => {
     it('should return health status', async () => {
-      const response = await request(app).get('/api/health');
+      const response = await api.get('/api/health');
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
@@ -43,11 +58,206 @@ describe('API Endpoints', () => {
       expect(response.body.database).toHaveProperty('connected');
     });
 
-    it('should include session count in health check', async () => {
+    it('should time the database check without counting sessions', async () => {
+      const response = await api.get('/api/health');
+
+      expect(typeof response.body.database.latencyMs).toBe('number');
+      expect(response.body.database).not.toHaveProperty('sessionCount');
+    });
+
+    it('should report the active limits', async () => {
+      const response = await api.get('/api/health');
+
+      expect(response.body.limits).toEqual({
+        maxBodyBytes: 2 * 1024 * 1024,
+        maxImportBytes: 50 * 1024 * 1024,
+        maxMessagesPerSession: 1000,
+        maxMessageChars: 50000,
+        maxSessionChars: 500000,
+      });
+    });
+  });
+
+  describe('Health probes', () => {
+    it('should answer the liveness probe without checking dependencies', async () => {
+      const response = await request(app).get('/api/health/live');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ success: true, status: 'alive' });
+    });
+
+    it('should report each dependency in the readiness probe', async () => {
+      const response = await request(app).get('/api/health/ready');
+
+      expect(response.body.checks.database).toMatchObject({ status: 'up' });
+      expect(typeof response.body.checks.database.latencyMs).toBe('number');
+      expect(response.body.checks.migrations).toHaveProperty('status');
+      expect(response.body.checks.secretManager).toMatchObject({ status: 'skipped' });
+      expect(response.status).toBe(response.body.status === 'ready' ? 200 : 503);
+    });
+  });
+
+  describe('Limits', () => {
+    afterEach(() => {
+      delete process.env.MAX_MESSAGES_PER_SESSION;
+    });
+
+    it('should return 413 for bodies over the size limit', async () => {
+      const response = await api.post('/api/chat/save').send({
+        messages: [{ role: 'user', content: 'x'.repeat(3 * 1024 * 1024) }],
+      });
+
+      expect(response.status).toBe(413);
+      expect(response.body).toMatchObject({ success: false, error: 'Payload too large', code: 'PAYLOAD_TOO_LARGE' });
+    });
+
+    it('should return a structured 400 for messages over the character limit', async () => {
+      const response = await api.post('/api/chat/save').send({
+        sessionId: 'long-message',
+        messages: [
+          { role: 'user', content: 'Short' },
+          { role: 'model', content: 'x'.repeat(50001) },
+        ],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toContainEqual({
+        path: 'body.messages[1].content',
+        message: 'must be at most 50000 characters',
+      });
+    });
+
+    it('should count stored messages when appending', async () => {
+      process.env.MAX_MESSAGES_PER_SESSION = '2';
+      await api.post('/api/chat/limited-session/messages').send({ messages: [{ role: 'user', content: 'One' }] });
+
+      const response = await api.post('/api/chat/limited-session/messages').send({
+        messages: [{ role: 'model', content: 'Two' }, { role: 'user', content: 'Three' }],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details[0]).toMatchObject({ path: 'body.messages' });
+      expect((await api.get('/api/chat/limited-session')).body.data.messages).toHaveLength(1);
+    });
+
+    it('should return 400 for malformed JSON', async () => {
+      const response = await api
+        .post('/api/chat/save')
+        .set('Content-Type', 'application/json')
+        .send('{"messages": [');
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Request body is not valid JSON');
+    });
+  });
+
+  describe('Request IDs', () => {
+    it("should echo the caller's X-Request-Id", async () => {
+      const response = await api.get('/api/health').set('X-Request-Id', 'client-trace-42');
+
+      expect(response.headers['x-request-id']).toBe('client-trace-42');
+    });
+
+    it('should create a request ID when none is sent', async () => {
+      const response = await api.get('/api/health');
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should include the request ID in error handler bodies', async () => {
+      const response = await api
+        .post('/api/chat/save')
+        .set('X-Request-Id', 'bad-json-1')
+        .set('Content-Type', 'application/json')
+        .send('{"messages": [');
+
+      expect(response.status).toBe(400);
+      expect(response.body.requestId).toBe('bad-json-1');
+    });
+  });
+
+  describe('Authentication', () => {
+    const saveAsTestUser = () =>
+      api.post('/api/chat/save').send({
+        sessionId: 'owned-session',
+        messages: [{ role: 'user', content: 'Mine' }],
+        timestamp: new Date().toISOString(),
+      });
+
+    it('should reject chat requests without credentials', async () => {
+      const response = await request(app).get('/api/chat');
+
+      expect(response.status).toBe(401);
+      expect(response.headers['www-authenticate']).toBe('Bearer');
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+
+    it('should reject an unknown API key', async () => {
+      const response = await request(app).get('/api/chat').set('X-API-Key', 'wrong-key');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should keep the health check public', async () => {
       const response = await request(app).get('/api/health');
 
-      expect(response.body.database).toHaveProperty('sessionCount');
-      expect(typeof response.body.database.sessionCount).toBe('number');
+      expect(response.status).not.toBe(401);
+    });
+
+    it('should accept a valid JWT and use its subject as the owner', async () => {
+      const token = signJwt({ sub: 'test-user', exp: Math.floor(Date.now() / 1000) + 60 });
+      await saveAsTestUser();
+
+      const response = await request(app)
+        .get('/api/chat/owned-session')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject an expired or wrongly signed JWT', async () => {
+      const expired = signJwt({ sub: 'test-user', exp: Math.floor(Date.now() / 1000) - 60 });
+      const forged = signJwt({ sub: 'test-user' }, 'not-the-secret');
+
+      for (const token of [expired, forged]) {
+        const response = await request(app).get('/api/chat').set('Authorization', `Bearer ${token}`);
+        expect(response.status).toBe(401);
+      }
+    });
+
+    it("should hide another user's sessions", async () => {
+      await saveAsTestUser();
+
+      const getResponse = await otherApi.get('/api/chat/owned-session');
+      const listResponse = await otherApi.get('/api/chat');
+      const deleteResponse = await otherApi.delete('/api/chat/owned-session');
+      const specResponse = await otherApi.post('/api/chat/owned-session/spec');
+
+      expect(getResponse.status).toBe(404);
+      expect(listResponse.body.data).toEqual([]);
+      expect(deleteResponse.status).toBe(404);
+      expect(specResponse.status).toBe(404);
+      expect((await api.get('/api/chat/owned-session')).status).toBe(200);
+    });
+
+    it("should not let another user write to a session", async () => {
+      await saveAsTestUser();
+
+      const saveResponse = await otherApi.post('/api/chat/save').send({
+        sessionId: 'owned-session',
+        messages: [{ role: 'user', content: 'Not mine' }],
+        timestamp: new Date().toISOString(),
+      });
+      const appendResponse = await otherApi
+        .post('/api/chat/owned-session/messages')
+        .send({ messages: [{ role: 'user', content: 'Not mine' }] });
+
+      expect(saveResponse.status).toBe(404);
+      expect(appendResponse.status).toBe(404);
+
+      const session = await api.get('/api/chat/owned-session');
+      expect(session.body.data.messages).toEqual([{ role: 'user', content: 'Mine' }]);
     });
   });
 
@@ -61,7 +271,7 @@ describe('API Endpoints', () => {
         timestamp: new Date().toISOString(),
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/chat/save')
         .send(chatData)
         .set('Content-Type', 'application/json');
@@ -82,7 +292,7 @@ describe('API Endpoints', () => {
         timestamp: new Date().toISOString(),
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/chat/save')
         .send(chatData)
         .set('Content-Type', 'application/json');
@@ -96,7 +306,7 @@ describe('API Endpoints', () => {
         timestamp: new Date().toISOString(),
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/chat/save')
         .send(chatData)
         .set('Content-Type', 'application/json');
@@ -112,7 +322,7 @@ describe('API Endpoints', () => {
         timestamp: new Date().toISOString(),
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/chat/save')
         .send(chatData)
         .set('Content-Type', 'application/json');
@@ -121,6 +331,26 @@ describe('API Endpoints', () => {
       expect(response.body).toHaveProperty('success', false);
     });
 
+    it('should return structured validation errors with field paths', async () => {
+      const response = await api
+        .post('/api/chat/save')
+        .send({
+          messages: [{ role: 'assistant', content: 'Hi' }],
+          timestamp: 'not-a-date',
+          extra: true,
+        })
+        .set('Content-Type', 'application/json');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+      expect(response.body.details).toEqual([
+        { path: 'body.messages[0].role', message: 'must be one of: user, model' },
+        { path: 'body.timestamp', message: 'must be an ISO 8601 date-time' },
+        { path: 'body.extra', message: 'is not allowed' },
+      ]);
+    });
+
     it('should update existing session when saving with same sessionId', async () => {
       const sessionId = 'update-test-session';
       const initialData = {
@@ -130,7 +360,7 @@ describe('API Endpoints', () => {
       };
 
       // Save initial
-      await request(app)
+      await api
         .post('/api/chat/save')
         .send(initialData)
         .set('Content-Type', 'application/json');
@@ -145,7 +375,7 @@ describe('API Endpoints', () => {
         timestamp: new Date().toISOString(),
       };
 
-      const response = await request(app)
+      const response = await api
         .post('/api/chat/save')
         .send(updatedData)
         .set('Content-Type', 'application/json');
@@ -153,15 +383,149 @@ describe('API Endpoints', () => {
       expect(response.status).toBe(201);
 
       // Verify the update
-      const getResponse = await request(app).get(`/api/chat/${sessionId}`);
+      const getResponse = await api.get(`/api/chat/${sessionId}`);
       expect(getResponse.body.data.messages).toHaveLength(2);
     });
   });
 
+  describe('POST /api/chat/save with If-Match', () => {
+    const chatData = {
+      sessionId: 'etag-session',
+      messages: [{ role: 'user', content: 'Hello' }],
+      timestamp: new Date().toISOString(),
+    };
+
+    it('should return the session version as an ETag', async () => {
+      const saveResponse = await api.post('/api/chat/save').send(chatData);
+
+      expect(saveResponse.headers.etag).toBe('"1"');
+      expect(saveResponse.body.version).toBe(1);
+
+      const getResponse = await api.get('/api/chat/etag-session');
+      expect(getResponse.headers.etag).toBe('"1"');
+      expect(getResponse.body.data.version).toBe(1);
+    });
+
+    it('should save when If-Match matches the current version', async () => {
+      await api.post('/api/chat/save').send(chatData);
+
+      const response = await api
+        .post('/api/chat/save')
+        .set('If-Match', '"1"')
+        .send(chatData);
+
+      expect(response.status).toBe(201);
+      expect(response.headers.etag).toBe('"2"');
+    });
+
+    it('should return 412 with the current state when another client saved first', async () => {
+      await api.post('/api/chat/save').send(chatData);
+      // Another tab saves, bumping the version to 2
+      await api
+        .post('/api/chat/save')
+        .send({ ...chatData, messages: [...chatData.messages, { role: 'model', content: 'Hi' }] });
+
+      const response = await api
+        .post('/api/chat/save')
+        .set('If-Match', '"1"')
+        .send(chatData);
+
+      expect(response.status).toBe(412);
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body).toHaveProperty('code', 'VERSION_CONFLICT');
+      expect(response.body.data.version).toBe(2);
+      expect(response.body.data.messages).toHaveLength(2);
+    });
+
+    it('should return 400 for a malformed If-Match header', async () => {
+      const response = await api
+        .post('/api/chat/save')
+        .set('If-Match', 'not-a-version')
+        .send(chatData);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('code', 'VALIDATION_FAILED');
+    });
+  });
+
+  describe('POST /api/chat/:sessionId/messages', () => {
+    it('should create the session on first append', async () => {
+      const response = await api
+        .post('/api/chat/append-session/messages')
+        .send({ messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        success: true,
+        sessionId: 'append-session',
+        created: true,
+        indices: [0],
+        messageCount: 1,
+        version: 1,
+      });
+    });
+
+    it('should append to an existing session and return the new indices', async () => {
+      await api
+        .post('/api/chat/save')
+        .send({
+          sessionId: 'append-session',
+          messages: [
+            { role: 'user', content: 'First' },
+            { role: 'model', content: 'Second' },
+          ],
+        });
+
+      const response = await api
+        .post('/api/chat/append-session/messages')
+        .send({
+          messages: [
+            { role: 'user', content: 'Third' },
+            { role: 'model', content: 'Fourth' },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.created).toBe(false);
+      expect(response.body.indices).toEqual([2, 3]);
+
+      const getResponse = await api.get('/api/chat/append-session');
+      expect(getResponse.body.data.messages.map((m: { content: string }) => m.content)).toEqual([
+        'First',
+        'Second',
+        'Third',
+        'Fourth',
+      ]);
+    });
+
+    it('should not lose messages on concurrent appends', async () => {
+      await Promise.all(
+        Array.from({ length: 5 }, (_, i) =>
+          api
+            .post('/api/chat/concurrent-session/messages')
+            .send({ messages: [{ role: 'user', content: `Message ${i}` }] })
+        )
+      );
+
+      const getResponse = await api.get('/api/chat/concurrent-session');
+      expect(getResponse.body.data.messages).toHaveLength(5);
+    });
+
+    it('should return 400 for malformed messages', async () => {
+      const empty = await api.post('/api/chat/append-session/messages').send({ messages: [] });
+      const badRole = await api
+        .post('/api/chat/append-session/messages')
+        .send({ messages: [{ role: 'system', content: 'Hi' }] });
+
+      expect(empty.status).toBe(400);
+      expect(badRole.status).toBe(400);
+    });
+  });
+
   describe('GET /api/chat/:sessionId', () => {
     it('should retrieve an existing chat session', async () => {
       // First, save a session
-      const saveResponse = await request(app)
+      const saveResponse = await api
         .post('/api/chat/save')
         .send({
           sessionId: 'get-test-session',
@@ -173,7 +537,7 @@ describe('API Endpoints', () => {
       const sessionId = saveResponse.body.sessionId;
 
       // Then retrieve it
-      const response = await request(app).get(`/api/chat/${sessionId}`);
+      const response = await api.get(`/api/chat/${sessionId}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
@@ -183,17 +547,18 @@ describe('API Endpoints', () => {
     });
 
     it('should return 404 for non-existent session', async () => {
-      const response = await request(app).get('/api/chat/non-existent-session');
+      const response = await api.get('/api/chat/non-existent-session');
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty('success', false);
       expect(response.body).toHaveProperty('error', 'Not found');
+      expect(response.body).toHaveProperty('code', 'NOT_FOUND');
     });
   });
 
   describe('GET /api/chat', () => {
     it('should return empty array when no sessions exist', async () => {
-      const response = await request(app).get('/api/chat');
+      const response = await api.get('/api/chat');
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
@@ -204,7 +569,7 @@ describe('API Endpoints', () => {
 
     it('should return all saved sessions', async () => {
       // Save multiple sessions
-      await request(app)
+      await api
         .post('/api/chat/save')
         .send({
           sessionId: 'session-1',
@@ -212,7 +577,7 @@ describe('API Endpoints', () => {
           timestamp: new Date().toISOString(),
         });
 
-      await request(app)
+      await api
         .post('/api/chat/save')
         .send({
           sessionId: 'session-2',
@@ -221,7 +586,7 @@ describe('API Endpoints', () => {
         });
 
       // Get all sessions
-      const response = await request(app).get('/api/chat');
+      const response = await api.get('/api/chat');
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
@@ -229,5 +594,787 @@ describe('API Endpoints', () => {
       expect(response.body.data).toHaveLength(2);
     });
   });
-});
+  describe('GET /api/chat pagination', () => {
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) {
+        await api
+          .post('/api/chat/save')
+          .send({
+            sessionId: `page-session-${i}`,
+            messages: [{ role: 'user', content: `Test ${i}` }],
+            timestamp: new Date(`2024-01-0${i}T00:00:00.000Z`).toISOString(),
+          });
+      }
+    });
+
+    it('should page through sessions with nextCursor', async () => {
+      const first = await api.get('/api/chat?limit=2');
+
+      expect(first.status).toBe(200);
+      expect(first.body.count).toBe(2);
+      expect(first.body.data.map((s: { sessionId: string }) => s.sessionId)).toEqual([
+        'page-session-5',
+        'page-session-4',
+      ]);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await api.get(`/api/chat?limit=2&cursor=${first.body.nextCursor}`);
+      expect(second.body.data.map((s: { sessionId: string }) => s.sessionId)).toEqual([
+        'page-session-3',
+        'page-session-2',
+      ]);
+
+      const third = await api.get(`/api/chat?limit=2&cursor=${second.body.nextCursor}`);
+      expect(third.body.data).toHaveLength(1);
+      expect(third.body.nextCursor).toBeNull();
+    });
+
+    it('should filter by timestamp range and sort ascending', async () => {
+      const response = await api
+        .get('/api/chat')
+        .query({ from: '2024-01-02T00:00:00.000Z', to: '2024-01-04T00:00:00.000Z', order: 'asc' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((s: { sessionId: string }) => s.sessionId)).toEqual([
+        'page-session-2',
+        'page-session-3',
+        'page-session-4',
+      ]);
+    });
+
+    it('should return 400 for invalid query parameters', async () => {
+      const badLimit = await api.get('/api/chat?limit=0');
+      const badSort = await api.get('/api/chat?sortBy=sessionId');
+      const badDate = await api.get('/api/chat?from=yesterday');
+      const badCursor = await api.get('/api/chat?cursor=not-a-cursor');
+
+      expect(badLimit.status).toBe(400);
+      expect(badSort.status).toBe(400);
+      expect(badDate.status).toBe(400);
+      expect(badCursor.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/chat/summaries', () => {
+    beforeEach(async () => {
+      await api
+        .post('/api/chat/save')
+        .send({
+          sessionId: 'summary-session',
+          messages: [
+            { role: 'model', content: 'Welcome!' },
+            { role: 'user', content: 'Design a rate limiter for the public API' },
+            { role: 'model', content: 'Sure.' },
+          ],
+          timestamp: new Date().toISOString(),
+        });
+    });
+
+    it('should return summaries without message bodies', async () => {
+      const response = await api.get('/api/chat/summaries');
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(response.body.nextCursor).toBeNull();
+
+      const [summary] = response.body.data;
+      expect(summary.sessionId).toBe('summary-session');
+      expect(summary.messageCount).toBe(3);
+      expect(summary.preview).toBe('Design a rate limiter for the public API');
+      expect(summary.title).toBe('Design a rate limiter for the public API');
+      expect(summary.tags).toEqual([]);
+      expect(summary).toHaveProperty('lastActivity');
+      expect(summary).not.toHaveProperty('messages');
+    });
 
+    it('should return summaries from GET /api/chat?view=summary', async () => {
+      const response = await api.get('/api/chat?view=summary');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0].messageCount).toBe(3);
+      expect(response.body.data[0]).not.toHaveProperty('messages');
+    });
+
+    it('should return 400 for an unknown view', async () => {
+      const response = await api.get('/api/chat?view=compact');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/chat/:sessionId', () => {
+    beforeEach(async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'patch-session',
+        title: 'Webhook design',
+        tags: ['Billing'],
+        metadata: { clientVersion: '1.4.0' },
+        messages: [{ role: 'user', content: 'How should webhooks retry?' }],
+      });
+    });
+
+    it('should persist title, tags and metadata sent on save', async () => {
+      const response = await api.get('/api/chat/patch-session');
+
+      expect(response.body.data).toMatchObject({
+        title: 'Webhook design',
+        tags: ['billing'],
+        metadata: { clientVersion: '1.4.0' },
+      });
+    });
+
+    it('should update the title and tags and return the new ETag', async () => {
+      const response = await api
+        .patch('/api/chat/patch-session')
+        .set('If-Match', '"1"')
+        .send({ title: 'Retry policy', tags: ['billing', 'webhooks'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.version).toBe(2);
+      expect(response.headers.etag).toBe('"2"');
+
+      const session = (await api.get('/api/chat/patch-session')).body.data;
+      expect(session).toMatchObject({ title: 'Retry policy', tags: ['billing', 'webhooks'] });
+      expect(session.messages).toHaveLength(1);
+    });
+
+    it('should store custom metadata keys', async () => {
+      const response = await api
+        .patch('/api/chat/patch-session')
+        .send({ metadata: { clientVersion: '1.5.0', team: 'billing', 'ticket.id': 'OPS-42' } });
+
+      expect(response.status).toBe(200);
+
+      const session = (await api.get('/api/chat/patch-session')).body.data;
+      expect(session.metadata).toEqual({ clientVersion: '1.5.0', team: 'billing', 'ticket.id': 'OPS-42' });
+    });
+
+    it('should regenerate the title when it is set to null', async () => {
+      await api.patch('/api/chat/patch-session').send({ title: null });
+
+      const session = (await api.get('/api/chat/patch-session')).body.data;
+      expect(session.title).toBe('How should webhooks retry?');
+    });
+
+    it('should filter lists by tags', async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'untagged-session',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      const response = await api.get('/api/chat/summaries?tags=billing');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((item: { sessionId: string }) => item.sessionId)).toEqual(['patch-session']);
+    });
+
+    it('should return 412 with the current state when If-Match is stale', async () => {
+      const response = await api.patch('/api/chat/patch-session').set('If-Match', '"7"').send({ tags: [] });
+
+      expect(response.status).toBe(412);
+      expect(response.body.data.version).toBe(1);
+    });
+
+    it('should reject empty bodies, blank titles and tags with commas', async () => {
+      const empty = await api.patch('/api/chat/patch-session').send({});
+      const blank = await api.patch('/api/chat/patch-session').send({ title: '   ' });
+      const comma = await api.patch('/api/chat/patch-session').send({ tags: ['a,b'] });
+
+      expect(empty.status).toBe(400);
+      expect(blank.status).toBe(400);
+      expect(comma.status).toBe(400);
+    });
+
+    it("should return 404 for another user's session", async () => {
+      const response = await otherApi.patch('/api/chat/patch-session').send({ title: 'Stolen' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/chat/search', () => {
+    beforeEach(async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'search-webhook',
+        messages: [
+          { role: 'user', content: 'We discussed the payment webhook retries.' },
+          { role: 'model', content: 'Retries should use exponential backoff.' },
+        ],
+        timestamp: new Date().toISOString(),
+      });
+      await otherApi.post('/api/chat/save').send({
+        sessionId: 'search-other-user',
+        messages: [{ role: 'user', content: 'My payment webhook is private.' }],
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    it("should find the caller's matching sessions with snippets", async () => {
+      const response = await api.get('/api/chat/search').query({ q: 'payment webhook' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0]).toMatchObject({
+        sessionId: 'search-webhook',
+        matchedIndices: [0],
+      });
+      expect(response.body.data[0].snippets[0].text).toContain('<mark>payment</mark>');
+    });
+
+    it('should return an empty list when nothing matches', async () => {
+      const response = await api.get('/api/chat/search').query({ q: 'kubernetes' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([]);
+    });
+
+    it('should return 400 without a query', async () => {
+      const missing = await api.get('/api/chat/search');
+      const blank = await api.get('/api/chat/search').query({ q: '   ' });
+
+      expect(missing.status).toBe(400);
+      expect(blank.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/chat/:sessionId', () => {
+    it('should delete an existing session and return 204', async () => {
+      await api
+        .post('/api/chat/save')
+        .send({
+          sessionId: 'delete-test-session',
+          messages: [{ role: 'user', content: 'Test' }],
+          timestamp: new Date().toISOString(),
+        });
+
+      const response = await api.delete('/api/chat/delete-test-session');
+
+      expect(response.status).toBe(204);
+      expect(response.body).toEqual({});
+
+      const getResponse = await api.get('/api/chat/delete-test-session');
+      expect(getResponse.status).toBe(404);
+    });
+
+    it('should return 404 for non-existent session', async () => {
+      const response = await api.delete('/api/chat/non-existent-session');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body).toHaveProperty('error', 'Not found');
+    });
+  });
+
+  describe('Trash', () => {
+    beforeEach(async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'trash-session',
+        messages: [{ role: 'user', content: 'Oops' }],
+        timestamp: new Date().toISOString(),
+      });
+      await api.delete('/api/chat/trash-session');
+    });
+
+    it('should list deleted sessions in the trash', async () => {
+      const listResponse = await api.get('/api/chat');
+      const trashResponse = await api.get('/api/chat/trash');
+
+      expect(listResponse.body.data).toEqual([]);
+      expect(trashResponse.status).toBe(200);
+      expect(trashResponse.body.retentionDays).toBe(30);
+      expect(trashResponse.body.data[0]).toMatchObject({ sessionId: 'trash-session', preview: 'Oops' });
+      expect(trashResponse.body.data[0]).toHaveProperty('deletedAt');
+    });
+
+    it('should restore a session from the trash', async () => {
+      const response = await api.post('/api/chat/trash-session/restore');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).toBe('"2"');
+
+      const getResponse = await api.get('/api/chat/trash-session');
+      expect(getResponse.status).toBe(200);
+      expect((await api.get('/api/chat/trash')).body.data).toEqual([]);
+    });
+
+    it('should return 404 when restoring a session that is not in the trash', async () => {
+      await api.post('/api/chat/trash-session/restore');
+
+      const response = await api.post('/api/chat/trash-session/restore');
+      const otherResponse = await otherApi.post('/api/chat/trash-session/restore');
+
+      expect(response.status).toBe(404);
+      expect(otherResponse.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/chat/:sessionId/fork', () => {
+    beforeEach(async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'fork-parent',
+        messages: [
+          { role: 'user', content: 'Design a webhook' },
+          { role: 'model', content: 'Use polling' },
+          { role: 'user', content: 'Too slow' },
+        ],
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    it('should create a session with messages up to the fork point', async () => {
+      const response = await api.post('/api/chat/fork-parent/fork').send({ messageIndex: 0 });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ success: true, parentSessionId: 'fork-parent', forkPoint: 0, messageCount: 1, version: 1 });
+      expect(response.headers.etag).toBe('"1"');
+
+      const fork = await api.get(`/api/chat/${response.body.sessionId}`);
+      expect(fork.body.data.messages).toEqual([{ role: 'user', content: 'Design a webhook' }]);
+      expect(fork.body.data.lineage).toEqual({ parent: { sessionId: 'fork-parent', forkPoint: 0 }, forks: [] });
+    });
+
+    it('should list forks in the parent lineage and leave the parent unchanged', async () => {
+      const { body } = await api.post('/api/chat/fork-parent/fork').send({ messageIndex: 1 });
+
+      const parent = await api.get('/api/chat/fork-parent');
+      expect(parent.body.data.messages).toHaveLength(3);
+      expect(parent.body.data.version).toBe(1);
+      expect(parent.body.data.lineage.parent).toBeNull();
+      expect(parent.body.data.lineage.forks).toEqual([
+        expect.objectContaining({ sessionId: body.sessionId, forkPoint: 1 }),
+      ]);
+    });
+
+    it('should return 400 for a message index past the end', async () => {
+      const response = await api.post('/api/chat/fork-parent/fork').send({ messageIndex: 3 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Fork point must be a message index below 3');
+    });
+
+    it("should return 404 for another owner's session", async () => {
+      const response = await otherApi.post('/api/chat/fork-parent/fork').send({ messageIndex: 0 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Revisions', () => {
+    beforeEach(async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'revised-session',
+        messages: [
+          { role: 'user', content: 'Design a webhook' },
+          { role: 'model', content: 'Use polling' },
+        ],
+        timestamp: new Date().toISOString(),
+      });
+      await api.post('/api/chat/save').send({
+        sessionId: 'revised-session',
+        messages: [
+          { role: 'user', content: 'Design a webhook' },
+          { role: 'model', content: 'Use retries' },
+          { role: 'user', content: 'Thanks' },
+        ],
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    it('should list a revision for each save, newest first', async () => {
+      const response = await api.get('/api/chat/revised-session/revisions');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((revision: any) => [revision.version, revision.messageCount])).toEqual([
+        [2, 3],
+        [1, 2],
+      ]);
+    });
+
+    it('should return the transcript of an earlier revision', async () => {
+      const response = await api.get('/api/chat/revised-session/revisions/1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.messages[1]).toEqual({ role: 'model', content: 'Use polling' });
+      expect((await api.get('/api/chat/revised-session/revisions/3')).status).toBe(404);
+      expect((await api.get('/api/chat/revised-session/revisions/latest')).status).toBe(400);
+    });
+
+    it('should diff two revisions', async () => {
+      const response = await api.get('/api/chat/revised-session/diff?from=1&to=2');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.summary).toEqual({ added: 1, removed: 0, edited: 1, unchanged: 1 });
+      expect(response.body.data.changes[0]).toMatchObject({
+        type: 'edited',
+        fromIndex: 1,
+        toIndex: 1,
+        after: { content: 'Use retries' },
+      });
+    });
+
+    it("should not expose another owner's revisions", async () => {
+      expect((await otherApi.get('/api/chat/revised-session/revisions')).status).toBe(404);
+      expect((await otherApi.get('/api/chat/revised-session/diff?from=1&to=2')).status).toBe(404);
+    });
+  });
+
+  describe('Redaction', () => {
+    it('should redact messages before storing them and audit what was removed', async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'redacted-session',
+        messages: [
+          { role: 'user', content: 'Mail jane.doe@example.com or use postgresql://app:secret@db:5432/app' },
+          { role: 'model', content: 'Noted.' },
+        ],
+        timestamp: new Date().toISOString(),
+      });
+
+      const getResponse = await api.get('/api/chat/redacted-session');
+      expect(getResponse.body.data.messages[0].content).toBe(
+        'Mail [REDACTED:email] or use [REDACTED:postgres-url]'
+      );
+      expect(getResponse.body.data.messages[1].content).toBe('Noted.');
+
+      const response = await api.get('/api/chat/redacted-session/redactions');
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([
+        expect.objectContaining({ version: 1, messageIndex: 0, detector: 'email', mode: 'mask', count: 1 }),
+        expect.objectContaining({ version: 1, messageIndex: 0, detector: 'postgres-url', mode: 'mask', count: 1 }),
+      ]);
+    });
+
+    it('should redact appended messages', async () => {
+      await api.post('/api/chat/appended-redaction/messages').send({
+        messages: [{ role: 'user', content: 'Call +1 415 555 0100' }],
+      });
+
+      const response = await api.get('/api/chat/appended-redaction/redactions');
+      expect(response.body.data).toEqual([
+        expect.objectContaining({ messageIndex: 0, detector: 'phone', count: 1 }),
+      ]);
+    });
+
+    it("should return 404 for another owner's session", async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'redacted-session',
+        messages: [{ role: 'user', content: 'jane.doe@example.com' }],
+        timestamp: new Date().toISOString(),
+      });
+
+      const response = await otherApi.get('/api/chat/redacted-session/redactions');
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/chat/import', () => {
+    it('should import a JSONL upload and report each record', async () => {
+      const upload = [
+        JSON.stringify({ sessionId: 'imported-1', messages: [{ role: 'user', content: 'Hello' }] }),
+        JSON.stringify({ uuid: 'claude-conv', chat_messages: [{ sender: 'human', text: 'Hi' }] }),
+        '{"sessionId": ',
+      ].join('\n');
+
+      const response = await api
+        .post('/api/chat/import')
+        .set('Content-Type', 'application/x-ndjson')
+        .send(upload);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ success: true, total: 3, imported: 2, skipped: 0, failed: 1 });
+      expect(response.body.records[2]).toEqual({ line: 3, status: 'failed', reason: 'Invalid JSON' });
+
+      const session = await api.get('/api/chat/claude-claude-conv');
+      expect(session.status).toBe(200);
+    });
+
+    it('should skip existing sessions unless onConflict=replace', async () => {
+      await api.post('/api/chat/save').send({ sessionId: 'imported-1', messages: [{ role: 'user', content: 'Original' }] });
+      const upload = JSON.stringify({ sessionId: 'imported-1', messages: [{ role: 'user', content: 'Imported' }] });
+
+      const skipped = await api.post('/api/chat/import').set('Content-Type', 'application/x-ndjson').send(upload);
+      expect(skipped.body).toMatchObject({ imported: 0, skipped: 1 });
+      expect((await api.get('/api/chat/imported-1')).body.data.messages[0].content).toBe('Original');
+
+      const replaced = await api
+        .post('/api/chat/import')
+        .query({ onConflict: 'replace' })
+        .set('Content-Type', 'application/x-ndjson')
+        .send(upload);
+      expect(replaced.body).toMatchObject({ imported: 1, skipped: 0 });
+      expect((await api.get('/api/chat/imported-1')).body.data.messages[0].content).toBe('Imported');
+    });
+
+    it('should reject JSON uploads', async () => {
+      const response = await api
+        .post('/api/chat/import')
+        .send([{ sessionId: 'imported-1', messages: [{ role: 'user', content: 'Hello' }] }]);
+
+      expect(response.status).toBe(415);
+      expect(response.body).toHaveProperty('code', 'UNSUPPORTED_MEDIA_TYPE');
+    });
+
+    it('should return 400 for an unknown format', async () => {
+      const response = await api
+        .post('/api/chat/import')
+        .query({ format: 'slack' })
+        .set('Content-Type', 'application/x-ndjson')
+        .send('');
+
+      expect(response.status).toBe(400);
+    });
+
+    describe('size limits', () => {
+      afterEach(() => {
+        delete process.env.MAX_IMPORT_SIZE;
+        delete process.env.MAX_BODY_SIZE;
+      });
+
+      it('should return 413 for uploads over the import size limit', async () => {
+        process.env.MAX_IMPORT_SIZE = '1kb';
+        const line = JSON.stringify({ sessionId: 'too-big', messages: [{ role: 'user', content: 'x'.repeat(100) }] });
+
+        const response = await api
+          .post('/api/chat/import')
+          .set('Content-Type', 'application/x-ndjson')
+          .send(Array(20).fill(line).join('\n'));
+
+        expect(response.status).toBe(413);
+        expect(response.body).toHaveProperty('code', 'PAYLOAD_TOO_LARGE');
+        expect((await api.get('/api/chat/too-big')).status).toBe(404);
+      });
+
+      it('should return 413 for a line over the body size limit', async () => {
+        process.env.MAX_BODY_SIZE = '1kb';
+        const upload = [
+          JSON.stringify({ sessionId: 'small', messages: [{ role: 'user', content: 'Hello' }] }),
+          JSON.stringify({ sessionId: 'long-line', messages: [{ role: 'user', content: 'x'.repeat(2048) }] }),
+        ].join('\n');
+
+        const response = await api
+          .post('/api/chat/import')
+          .set('Content-Type', 'application/x-ndjson')
+          .send(upload);
+
+        expect(response.status).toBe(413);
+        expect(response.body.message).toBe('Each import line must be at most 1024 bytes');
+        expect(response.body.data).toMatchObject({ total: 1, imported: 1, records: [{ line: 1, sessionId: 'small', status: 'imported' }] });
+        expect((await api.get('/api/chat/small')).status).toBe(200);
+      });
+    });
+  });
+
+  describe('POST /api/chat/bulk-delete', () => {
+    beforeEach(async () => {
+      for (const [sessionId, timestamp] of [
+        ['bulk-old-1', '2023-01-01T00:00:00.000Z'],
+        ['bulk-old-2', '2023-06-01T00:00:00.000Z'],
+        ['bulk-new', '2024-06-01T00:00:00.000Z'],
+      ]) {
+        await api
+          .post('/api/chat/save')
+          .send({ sessionId, messages: [{ role: 'user', content: 'Test' }], timestamp });
+      }
+    });
+
+    it('should delete sessions by ID', async () => {
+      const response = await api
+        .post('/api/chat/bulk-delete')
+        .send({ sessionIds: ['bulk-old-1', 'bulk-new', 'non-existent'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, deletedCount: 2 });
+
+      const remaining = await api.get('/api/chat');
+      expect(remaining.body.data.map((s: { sessionId: string }) => s.sessionId)).toEqual(['bulk-old-2']);
+    });
+
+    it('should delete sessions older than a cutoff date', async () => {
+      const response = await api
+        .post('/api/chat/bulk-delete')
+        .send({ before: '2024-01-01T00:00:00.000Z' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.deletedCount).toBe(2);
+
+      const remaining = await api.get('/api/chat');
+      expect(remaining.body.data.map((s: { sessionId: string }) => s.sessionId)).toEqual(['bulk-new']);
+    });
+
+    it('should return 400 without sessionIds or before', async () => {
+      const response = await api.post('/api/chat/bulk-delete').send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('success', false);
+    });
+
+    it('should return 400 for an invalid cutoff date', async () => {
+      const response = await api.post('/api/chat/bulk-delete').send({ before: 'last week' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/admin/retention/dry-run', () => {
+    afterEach(() => {
+      delete process.env.RETENTION_POLICY;
+    });
+
+    it('should require the admin role', async () => {
+      const response = await api.get('/api/admin/retention/dry-run');
+
+      expect(response.status).toBe(403);
+      expect(response.body).toHaveProperty('code', 'FORBIDDEN');
+    });
+
+    it('should return 404 when no policy is configured', async () => {
+      const response = await request(app).get('/api/admin/retention/dry-run').set('X-API-Key', 'admin-key');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should report what the policy would remove', async () => {
+      process.env.RETENTION_POLICY = JSON.stringify({ field: 'timestamp', maxAgeDays: 30 });
+      await api.post('/api/chat/save').send({
+        sessionId: 'expired-session',
+        messages: [{ role: 'user', content: 'Old' }],
+        timestamp: new Date('2020-01-01').toISOString(),
+      });
+
+      const response = await request(app).get('/api/admin/retention/dry-run').set('X-API-Key', 'admin-key');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ action: 'archive', total: 1, sample: ['expired-session'] });
+      expect((await api.get('/api/chat/expired-session')).status).toBe(200);
+    });
+  });
+
+  describe('GET /api/analytics', () => {
+    beforeEach(async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'analytics-mine',
+        messages: [
+          { role: 'user', content: 'Hello' },
+          { role: 'model', content: 'Hi there' },
+        ],
+        timestamp: '2024-01-01T00:00:00.000Z',
+        metadata: { clientVersion: '2.0.0' },
+      });
+      await otherApi.post('/api/chat/save').send({
+        sessionId: 'analytics-theirs',
+        messages: [{ role: 'user', content: 'Hey' }],
+        timestamp: '2024-01-02T00:00:00.000Z',
+      });
+    });
+
+    it("should report statistics for the caller's sessions", async () => {
+      const response = await api.get('/api/analytics');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        interval: 'day',
+        sessions: { total: 1, perPeriod: [{ period: '2024-01-01', sessions: 1 }] },
+        messages: { total: 2, user: 1, model: 1, userToModelRatio: 1 },
+        clientVersions: [{ clientVersion: '2.0.0', sessions: 1 }],
+      });
+    });
+
+    it('should cover every session for admins with scope=all', async () => {
+      const forbidden = await api.get('/api/analytics?scope=all');
+      const response = await request(app).get('/api/analytics?scope=all').set('X-API-Key', 'admin-key');
+
+      expect(forbidden.status).toBe(403);
+      expect(response.status).toBe(200);
+      expect(response.body.data.sessions.total).toBe(2);
+    });
+
+    it('should reject invalid ranges and intervals', async () => {
+      const reversed = await api.get('/api/analytics?from=2024-02-01T00:00:00Z&to=2024-01-01T00:00:00Z');
+      const badInterval = await api.get('/api/analytics?interval=month');
+
+      expect(reversed.status).toBe(400);
+      expect(badInterval.status).toBe(400);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/analytics');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/chat/:sessionId/export', () => {
+    beforeEach(async () => {
+      await api.post('/api/chat/save').send({
+        sessionId: 'export-session',
+        messages: [
+          { role: 'user', content: 'Hello <b>there</b>' },
+          { role: 'model', content: 'Hi!' },
+        ],
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    it('should export Markdown as an attachment by default', async () => {
+      const response = await api.get('/api/chat/export-session/export');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/markdown/);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="export-session.md"');
+      expect(response.text).toContain('## 1. User');
+    });
+
+    it('should export each supported format', async () => {
+      const html = await api.get('/api/chat/export-session/export').query({ format: 'html' });
+      const jsonl = await api.get('/api/chat/export-session/export').query({ format: 'jsonl' });
+      const txt = await api.get('/api/chat/export-session/export').query({ format: 'txt' });
+
+      expect(html.headers['content-type']).toMatch(/^text\/html/);
+      expect(html.text).toContain('Hello &lt;b&gt;there&lt;/b&gt;');
+      expect(jsonl.headers['content-disposition']).toContain('export-session.jsonl');
+      expect(jsonl.text.trim().split('\n')).toHaveLength(3);
+      expect(txt.headers['content-type']).toMatch(/^text\/plain/);
+    });
+
+    it('should return 400 for an unsupported format', async () => {
+      const response = await api.get('/api/chat/export-session/export').query({ format: 'pdf' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for a non-existent session', async () => {
+      const response = await api.get('/api/chat/missing-session/export');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/chat/:sessionId/spec', () => {
+    it('should generate a tech spec for an existing session', async () => {
+      await api
+        .post('/api/chat/save')
+        .send({
+          sessionId: 'spec-test-session',
+          messages: [
+            { role: 'user', content: 'We need an audit log. It must be immutable.' },
+            { role: 'model', content: 'The service could write to an append-only table.' },
+          ],
+          timestamp: new Date().toISOString(),
+        });
+
+      const response = await api.post('/api/chat/spec-test-session/spec');
+
+      expect(response.status).toBe(201);
+      expect(response.body).toHaveProperty('success', true);
+      expect(response.body.data.sessionId).toBe('spec-test-session');
+      expect(response.body.data).toHaveProperty('overview');
+      expect(response.body.data.requirements).toContain('It must be immutable.');
+    });
+
+    it('should return 404 for non-existent session', async () => {
+      const response = await api.post('/api/chat/non-existent-session/spec');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('success', false);
+    });
+  });
+});
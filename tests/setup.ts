@@ -2,6 +2,11 @@ import { afterAll, beforeAll } from 'vitest';
 
 // Set test environment
 process.env.NODE_ENV = 'test';
+// Credentials accepted by the auth middleware in tests
+process.env.API_KEYS = 'test-key:test-user,other-key:other-user,admin-key:admin-user:admin';
+process.env.JWT_SECRET = 'test-jwt-secret';
+// Suites send many requests per principal; the rate limiter has its own tests
+process.env.RATE_LIMIT_ENABLED = 'false';
 // Use the same PostgreSQL database from .env
 // Tests will clean up after themselves
 
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { analyticsService } from '../../src/services/analytics.service';
+import { storageService } from '../../src/services/storage.service';
+import { prisma } from '../../src/config/database';
+
+describe('AnalyticsService', () => {
+  beforeEach(async () => {
+    await prisma.chatSession.deleteMany();
+
+    await storageService.saveSession({
+      sessionId: 'analytics-1',
+      messages: [
+        { role: 'user', content: 'abcd' },
+        { role: 'model', content: 'abcdefgh' },
+      ],
+      timestamp: '2024-01-01T10:00:00.000Z',
+      metadata: { clientVersion: '1.0.0' },
+    }, { ownerId: 'alice' });
+    await storageService.saveSession({
+      sessionId: 'analytics-2',
+      messages: [
+        { role: 'user', content: 'ab' },
+        { role: 'model', content: 'abcd' },
+        { role: 'user', content: 'abcdef' },
+        { role: 'model', content: 'ab' },
+      ],
+      timestamp: '2024-01-03T10:00:00.000Z',
+      metadata: { clientVersion: '1.1.0' },
+    }, { ownerId: 'alice' });
+    await storageService.saveSession({
+      sessionId: 'analytics-3',
+      messages: [{ role: 'user', content: 'x' }],
+      timestamp: '2024-01-03T12:00:00.000Z',
+      metadata: { clientVersion: '1.1.0' },
+    }, { ownerId: 'bob' });
+  });
+
+  afterEach(async () => {
+    await prisma.chatSession.deleteMany();
+  });
+
+  it("should aggregate an owner's sessions", async () => {
+    const report = await analyticsService.getReport({ ownerId: 'alice', interval: 'day' });
+
+    expect(report.sessions).toEqual({
+      total: 2,
+      perPeriod: [
+        { period: '2024-01-01', sessions: 1 },
+        { period: '2024-01-02', sessions: 0 },
+        { period: '2024-01-03', sessions: 1 },
+      ],
+    });
+    expect(report.messagesPerSession).toEqual({ average: 3, p50: 3, p95: 3.9 });
+    expect(report.messages).toEqual({ total: 6, user: 3, model: 3, userToModelRatio: 1 });
+    expect(report.averageContentLength).toEqual({ all: 4.33, user: 4, model: 4.67 });
+    expect(report.clientVersions.map(version => version.clientVersion)).toEqual(['1.0.0', '1.1.0']);
+  });
+
+  it('should cover every owner when unscoped and group by week', async () => {
+    const report = await analyticsService.getReport({ interval: 'week' });
+
+    expect(report.sessions.total).toBe(3);
+    // 2024-01-01 is a Monday, so every session falls in one week
+    expect(report.sessions.perPeriod).toEqual([{ period: '2024-01-01', sessions: 3 }]);
+    expect(report.clientVersions[0]).toMatchObject({ clientVersion: '1.1.0', sessions: 2 });
+  });
+
+  it('should apply the date range and skip trashed sessions', async () => {
+    await storageService.deleteSession('analytics-3');
+
+    const report = await analyticsService.getReport({
+      from: new Date('2024-01-02T00:00:00.000Z'),
+      to: new Date('2024-01-31T00:00:00.000Z'),
+      interval: 'day',
+    });
+
+    expect(report.sessions.total).toBe(1);
+    expect(report.from).toBe('2024-01-02T00:00:00.000Z');
+    expect(report.messages.total).toBe(4);
+  });
+
+  it('should report zeros when there are no sessions', async () => {
+    const report = await analyticsService.getReport({ ownerId: 'nobody', interval: 'day' });
+
+    expect(report.sessions).toEqual({ total: 0, perPeriod: [] });
+    expect(report.messagesPerSession).toEqual({ average: 0, p50: 0, p95: 0 });
+    expect(report.messages.userToModelRatio).toBeNull();
+    expect(report.clientVersions).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { authService, parseApiKeys, verifyJwt } from '../../src/services/auth.service';
+
+function signJwt(claims: Record<string, unknown>, secret: string, alg = 'HS256'): string {
+  const header = Buffer.from(JSON.stringify({ alg, typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+describe('parseApiKeys', () => {
+  it('should parse keys with optional roles and skip malformed entries', () => {
+    const keys = parseApiKeys('alpha:user-1, beta:user-2:admin,broken,:no-key');
+
+    expect(keys.size).toBe(2);
+    expect([...keys.values()]).toEqual([
+      { id: 'user-1', role: 'user' },
+      { id: 'user-2', role: 'admin' },
+    ]);
+  });
+
+  it('should not keep raw keys', () => {
+    const keys = parseApiKeys('alpha:user-1');
+
+    expect(keys.has('alpha')).toBe(false);
+  });
+});
+
+describe('verifyJwt', () => {
+  const secret = 'unit-secret';
+  const now = Date.UTC(2026, 0, 1);
+  const nowSeconds = now / 1000;
+
+  it('should return the claims of a valid token', () => {
+    const token = signJwt({ sub: 'user-1', exp: nowSeconds + 60 }, secret);
+
+    expect(verifyJwt(token, secret, now)).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('should reject a bad signature, algorithm or validity window', () => {
+    expect(verifyJwt(signJwt({ sub: 'user-1' }, 'other-secret'), secret, now)).toBeNull();
+    expect(verifyJwt(signJwt({ sub: 'user-1' }, secret, 'none'), secret, now)).toBeNull();
+    expect(verifyJwt(signJwt({ sub: 'user-1', exp: nowSeconds }, secret), secret, now)).toBeNull();
+    expect(verifyJwt(signJwt({ sub: 'user-1', nbf: nowSeconds + 60 }, secret), secret, now)).toBeNull();
+    expect(verifyJwt('not-a-token', secret, now)).toBeNull();
+  });
+});
+
+describe('AuthService', () => {
+  const { API_KEYS, JWT_SECRET } = process.env;
+
+  beforeEach(() => {
+    authService.clearCache();
+  });
+
+  afterEach(() => {
+    Object.assign(process.env, { API_KEYS, JWT_SECRET });
+    vi.useRealTimers();
+  });
+
+  it('should resolve API keys from the API_KEYS secret', async () => {
+    await expect(authService.authenticate('test-key')).resolves.toEqual({
+      id: 'test-user',
+      role: 'user',
+      method: 'api-key',
+    });
+    await expect(authService.authenticate('unknown-key')).resolves.toBeNull();
+  });
+
+  it('should resolve JWTs signed with JWT_SECRET', async () => {
+    const token = signJwt({ sub: 'jwt-user', role: 'admin' }, process.env.JWT_SECRET!);
+
+    await expect(authService.authenticate(token)).resolves.toEqual({
+      id: 'jwt-user',
+      role: 'admin',
+      method: 'jwt',
+    });
+  });
+
+  it('should reject a JWT without a subject', async () => {
+    const token = signJwt({ role: 'admin' }, process.env.JWT_SECRET!);
+
+    await expect(authService.authenticate(token)).resolves.toBeNull();
+  });
+
+  it('should pick up rotated keys once the cache expires', async () => {
+    vi.useFakeTimers();
+    await authService.authenticate('test-key');
+
+    process.env.API_KEYS = 'rotated-key:test-user';
+    await expect(authService.authenticate('rotated-key')).resolves.toBeNull();
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await expect(authService.authenticate('rotated-key')).resolves.toMatchObject({ id: 'test-user' });
+  });
+
+  it('should keep the last credentials when a reload finds none', async () => {
+    vi.useFakeTimers();
+    await authService.authenticate('test-key');
+
+    delete process.env.API_KEYS;
+    delete process.env.JWT_SECRET;
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    await expect(authService.authenticate('test-key')).resolves.toMatchObject({ id: 'test-user' });
+  });
+});
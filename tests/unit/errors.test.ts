@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import {
+  AppError,
+  ERROR_CODES,
+  NotFoundError,
+  PreconditionFailedError,
+  UnavailableError,
+  ValidationError,
+  sendError,
+} from '../../src/errors/index';
+import { asyncHandler } from '../../src/middleware/async-handler';
+import { runWithRequestContext } from '../../src/config/request-context';
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+describe('AppError', () => {
+  it('should carry status, code and title', () => {
+    const error = new NotFoundError('Chat session abc not found');
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('NotFoundError');
+    expect(error.status).toBe(404);
+    expect(error.toResponse()).toEqual({
+      success: false,
+      error: 'Not found',
+      code: 'NOT_FOUND',
+      message: 'Chat session abc not found',
+    });
+  });
+
+  it('should include validation details only when there are any', () => {
+    const details = [{ path: 'body.messages', message: 'is required' }];
+
+    expect(new ValidationError('body.messages is required', details).toResponse()).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      details,
+    });
+    expect(new ValidationError('cursor is invalid').toResponse()).not.toHaveProperty('details');
+  });
+
+  it('should send the current state with failed preconditions', () => {
+    const current = { sessionId: 'abc', version: 3 };
+    const error = new PreconditionFailedError('Modified by another client', current);
+
+    expect(error.status).toBe(412);
+    expect(error.toResponse()).toMatchObject({
+      error: 'Precondition failed',
+      code: 'VERSION_CONFLICT',
+      data: current,
+    });
+  });
+
+  it('should only use documented codes', () => {
+    expect(ERROR_CODES).toContain(new UnavailableError('Database unreachable').code);
+  });
+});
+
+describe('sendError', () => {
+  it('should respond with the status and the request ID', () => {
+    const res = mockResponse();
+
+    runWithRequestContext({ requestId: 'req-1' }, () => {
+      sendError(res as unknown as Response, new UnavailableError('Failed to get chat session'));
+    });
+
+    expect(res.statusCode).toBe(503);
+    expect(res.body).toEqual({
+      success: false,
+      error: 'Service unavailable',
+      code: 'SERVICE_UNAVAILABLE',
+      message: 'Failed to get chat session',
+      requestId: 'req-1',
+    });
+  });
+});
+
+describe('asyncHandler', () => {
+  it('should pass rejections to next', async () => {
+    const error = new NotFoundError('missing');
+    const next = vi.fn();
+
+    asyncHandler(async () => {
+      throw error;
+    })({} as Request, {} as Response, next as unknown as NextFunction);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  it('should not call next when the handler succeeds', async () => {
+    const next = vi.fn();
+    const handler = vi.fn(async () => undefined);
+
+    asyncHandler(handler)({} as Request, {} as Response, next as unknown as NextFunction);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(handler).toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { exportService, renderHtml, renderJsonl, renderMarkdown, renderText } from '../../src/services/export.service';
+import type { ChatSession } from '../../src/types';
+
+const session: ChatSession = {
+  sessionId: 'export-session-1',
+  messages: [
+    { role: 'user', content: 'Design the <webhook> retry policy.', timestamp: '2024-01-01T10:00:00.000Z' },
+    { role: 'model', content: 'Use exponential backoff.\nCap at 5 attempts.' },
+  ],
+  timestamp: '2024-01-01T09:59:00.000Z',
+  metadata: { userAgent: 'Mozilla/5.0 "test"', clientVersion: '1.2.0' },
+  version: 3,
+};
+
+describe('renderMarkdown', () => {
+  it('should start with YAML front matter', () => {
+    const markdown = renderMarkdown(session);
+
+    expect(markdown.startsWith('---\nsessionId: "export-session-1"\n')).toBe(true);
+    expect(markdown).toContain('version: 3\nmessageCount: 2\n');
+    expect(markdown).toContain('userAgent: "Mozilla/5.0 \\"test\\""');
+  });
+
+  it('should render role headings, timestamps and content in order', () => {
+    const markdown = renderMarkdown(session);
+
+    expect(markdown).toContain('## 1. User\n\n_2024-01-01T10:00:00.000Z_\n\nDesign the <webhook> retry policy.');
+    expect(markdown).toContain('## 2. Assistant\n\nUse exponential backoff.\nCap at 5 attempts.');
+    expect(markdown.indexOf('## 1. User')).toBeLessThan(markdown.indexOf('## 2. Assistant'));
+  });
+
+  it('should use the session title and tags when set', () => {
+    const markdown = renderMarkdown({ ...session, title: 'Webhook retries', tags: ['billing', 'api'] });
+
+    expect(markdown).toContain('sessionId: "export-session-1"\ntitle: "Webhook retries"\ntags: "billing, api"\n');
+    expect(markdown).toContain('\n# Webhook retries\n');
+  });
+});
+
+describe('renderHtml', () => {
+  it('should escape message content and metadata', () => {
+    const html = renderHtml(session);
+
+    expect(html).toContain('Design the &lt;webhook&gt; retry policy.');
+    expect(html).not.toContain('<webhook>');
+    expect(html).toContain('<dd>Mozilla/5.0 &quot;test&quot;</dd>');
+  });
+
+  it('should include print styles and message timestamps', () => {
+    const html = renderHtml(session);
+
+    expect(html).toContain('@media print');
+    expect(html).toContain('<time datetime="2024-01-01T10:00:00.000Z">');
+    expect(html).toContain('<h2>2. Assistant</h2>');
+  });
+});
+
+describe('renderJsonl', () => {
+  it('should write a session header followed by one record per message', () => {
+    const records = renderJsonl(session).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(records).toHaveLength(3);
+    expect(records[0]).toMatchObject({ type: 'session', sessionId: 'export-session-1', version: 3, messageCount: 2 });
+    expect(records[1]).toEqual({
+      type: 'message',
+      index: 0,
+      role: 'user',
+      content: 'Design the <webhook> retry policy.',
+      timestamp: '2024-01-01T10:00:00.000Z',
+    });
+    expect(records[2]).toMatchObject({ type: 'message', index: 1, role: 'model' });
+  });
+});
+
+describe('renderText', () => {
+  it('should render metadata lines and labelled messages', () => {
+    const text = renderText(session);
+
+    expect(text.startsWith('sessionId: export-session-1\n')).toBe(true);
+    expect(text).toContain('[1] User (2024-01-01T10:00:00.000Z)\nDesign the <webhook> retry policy.');
+    expect(text).toContain('[2] Assistant\nUse exponential backoff.');
+  });
+});
+
+describe('ExportService', () => {
+  it('should pick the content type and file extension for each format', () => {
+    expect(exportService.render(session, 'markdown')).toMatchObject({
+      contentType: 'text/markdown; charset=utf-8',
+      filename: 'export-session-1.md',
+    });
+    expect(exportService.render(session, 'jsonl').filename).toBe('export-session-1.jsonl');
+  });
+
+  it('should make session IDs safe to use as filenames', () => {
+    const document = exportService.render({ ...session, sessionId: 'a/b "c"\r\n' }, 'txt');
+
+    expect(document.filename).toBe('a_b_c_.txt');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { HealthService } from '../../src/services/health.service';
+
+describe('HealthService', () => {
+  let migrationsDir: string;
+
+  beforeAll(async () => {
+    migrationsDir = await mkdtemp(path.join(tmpdir(), 'migrations-'));
+  });
+
+  afterAll(async () => {
+    await rm(migrationsDir, { recursive: true, force: true });
+  });
+
+  it('should report the database up with its latency', async () => {
+    const report = await new HealthService(migrationsDir).checkReadiness();
+
+    expect(report.checks.database.status).toBe('up');
+    expect(report.checks.database.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(report.timestamp)).not.toBeNaN();
+  });
+
+  it('should skip Secret Manager outside production', async () => {
+    const report = await new HealthService(migrationsDir).checkReadiness();
+
+    expect(report.checks.secretManager).toMatchObject({ status: 'skipped' });
+  });
+
+  it('should be ready when no shipped migration is pending', async () => {
+    const report = await new HealthService(migrationsDir).checkReadiness();
+
+    expect(report.checks.migrations).toMatchObject({ status: 'up', pending: [], failed: [] });
+    expect(report.status).toBe('ready');
+  });
+
+  it('should not be ready while a shipped migration is not applied', async () => {
+    await mkdir(path.join(migrationsDir, '29991231000000_not_applied'));
+
+    const report = await new HealthService(migrationsDir).checkReadiness();
+
+    expect(report.status).toBe('not_ready');
+    expect(report.checks.migrations).toMatchObject({
+      status: 'down',
+      message: 'Migrations are pending',
+      pending: ['29991231000000_not_applied'],
+    });
+    expect(report.checks.database.status).toBe('up');
+  });
+
+  it('should only check for failed migrations without a migrations directory', async () => {
+    const report = await new HealthService(path.join(migrationsDir, 'missing')).checkReadiness();
+
+    expect(report.checks.migrations).toMatchObject({ status: 'up', pending: [] });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  importService,
+  fromChatGpt,
+  fromClaude,
+  readLines,
+  toImportedSession,
+  ImportAbortedError,
+  ImportRecordError,
+} from '../../src/services/import.service';
+import { PayloadTooLargeError } from '../../src/errors';
+import { storageService } from '../../src/services/storage.service';
+import { prisma } from '../../src/config/database';
+
+const chatGptConversation = {
+  id: 'conv-1',
+  title: 'Webhook design',
+  create_time: 1704067200,
+  current_node: 'c',
+  mapping: {
+    root: { parent: null, message: null },
+    s: { parent: 'root', message: { author: { role: 'system' }, content: { parts: ['You are helpful'] } } },
+    a: { parent: 's', message: { author: { role: 'user' }, content: { parts: ['Design a webhook'] }, create_time: 1704067260 } },
+    b: { parent: 'a', message: { author: { role: 'assistant' }, content: { parts: ['Use retries'] } } },
+    // Abandoned branch: not on the path to current_node
+    x: { parent: 'a', message: { author: { role: 'assistant' }, content: { parts: ['Discarded answer'] } } },
+    c: { parent: 'b', message: { author: { role: 'user' }, content: { parts: ['Thanks', { image: true }] } } },
+  },
+};
+
+const claudeConversation = {
+  uuid: 'abc-123',
+  name: 'Greeting',
+  created_at: '2024-01-01T00:00:00Z',
+  chat_messages: [
+    { sender: 'human', text: 'Hello', created_at: '2024-01-01T00:00:01Z' },
+    { sender: 'assistant', text: '', content: [{ type: 'text', text: 'Hi there' }, { type: 'tool_use' }] },
+  ],
+};
+
+async function* linesOf(...lines: string[]) {
+  yield* lines;
+}
+
+describe('fromChatGpt', () => {
+  it('should follow the active branch and map roles', () => {
+    const session = fromChatGpt(chatGptConversation);
+
+    expect(session.sessionId).toBe('chatgpt-conv-1');
+    expect(session.title).toBe('Webhook design');
+    expect(session.timestamp).toBe('2024-01-01T00:00:00.000Z');
+    expect(session.messages).toEqual([
+      { role: 'user', content: 'Design a webhook', timestamp: '2024-01-01T00:01:00.000Z' },
+      { role: 'model', content: 'Use retries' },
+      { role: 'user', content: 'Thanks' },
+    ]);
+  });
+});
+
+describe('fromClaude', () => {
+  it('should map senders and text content blocks', () => {
+    const session = fromClaude(claudeConversation);
+
+    expect(session.sessionId).toBe('claude-abc-123');
+    expect(session.title).toBe('Greeting');
+    expect(session.messages).toEqual([
+      { role: 'user', content: 'Hello', timestamp: '2024-01-01T00:00:01.000Z' },
+      { role: 'model', content: 'Hi there' },
+    ]);
+  });
+});
+
+describe('toImportedSession', () => {
+  it('should detect the record format', () => {
+    expect(toImportedSession(chatGptConversation, 'auto').sessionId).toBe('chatgpt-conv-1');
+    expect(toImportedSession(claudeConversation, 'auto').sessionId).toBe('claude-abc-123');
+    expect(
+      toImportedSession({ sessionId: 'native-1', messages: [{ role: 'user', content: 'Hi' }] }, 'auto').sessionId
+    ).toBe('native-1');
+  });
+
+  it('should report validation errors for native records', () => {
+    expect(() => toImportedSession({ sessionId: 'bad', messages: [{ role: 'system', content: 'Hi' }] }, 'native'))
+      .toThrow('record.messages[0].role must be one of: user, model');
+  });
+
+  it('should mark conversations without usable messages as skippable', () => {
+    try {
+      toImportedSession({ ...claudeConversation, chat_messages: [] }, 'claude');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ImportRecordError);
+      expect((error as ImportRecordError).skip).toBe(true);
+    }
+  });
+});
+
+describe('ImportService', () => {
+  beforeEach(async () => {
+    await prisma.chatSession.deleteMany();
+  });
+
+  afterEach(async () => {
+    await prisma.chatSession.deleteMany();
+  });
+
+  it('should import valid records and report every line', async () => {
+    const report = await importService.importLines(
+      linesOf(
+        JSON.stringify({ sessionId: 'import-1', messages: [{ role: 'user', content: 'One' }] }),
+        '',
+        'not json',
+        JSON.stringify(claudeConversation),
+        JSON.stringify({ sessionId: 'import-1', messages: [{ role: 'user', content: 'Again' }] }),
+        JSON.stringify({ sessionId: 'import-2', messages: [] })
+      ),
+      { format: 'auto', onConflict: 'replace', ownerId: 'owner-1' }
+    );
+
+    expect(report).toMatchObject({ total: 5, imported: 2, skipped: 1, failed: 2 });
+    expect(report.records.map(record => [record.line, record.status])).toEqual([
+      [1, 'imported'],
+      [3, 'failed'],
+      [4, 'imported'],
+      [5, 'skipped'],
+      [6, 'failed'],
+    ]);
+    expect((await storageService.getSession('claude-abc-123', 'owner-1'))?.messages).toHaveLength(2);
+  });
+
+  it('should replace or skip existing sessions depending on onConflict', async () => {
+    await storageService.saveSession(
+      { sessionId: 'existing', messages: [{ role: 'user', content: 'Old' }], timestamp: new Date().toISOString() },
+      { ownerId: 'owner-1' }
+    );
+    const line = JSON.stringify({ sessionId: 'existing', messages: [{ role: 'user', content: 'New' }] });
+
+    const skipped = await importService.importLines(linesOf(line), { format: 'native', onConflict: 'skip', ownerId: 'owner-1' });
+    expect(skipped.records[0]).toMatchObject({ status: 'skipped', reason: 'Session already exists' });
+
+    const replaced = await importService.importLines(linesOf(line), { format: 'native', onConflict: 'replace', ownerId: 'owner-1' });
+    expect(replaced.records[0]).toMatchObject({ status: 'imported', action: 'replaced' });
+
+    const session = await storageService.getSession('existing');
+    expect(session?.messages).toEqual([{ role: 'user', content: 'New' }]);
+    expect(session?.version).toBe(2);
+  });
+
+  it("should not overwrite another owner's session", async () => {
+    await storageService.saveSession(
+      { sessionId: 'theirs', messages: [{ role: 'user', content: 'Theirs' }], timestamp: new Date().toISOString() },
+      { ownerId: 'owner-2' }
+    );
+
+    const report = await importService.importLines(
+      linesOf(JSON.stringify({ sessionId: 'theirs', messages: [{ role: 'user', content: 'Mine' }] })),
+      { format: 'native', onConflict: 'replace', ownerId: 'owner-1' }
+    );
+
+    expect(report.records[0]).toMatchObject({ status: 'failed', reason: 'Session ID is unavailable' });
+    expect((await storageService.getSession('theirs'))?.messages[0].content).toBe('Theirs');
+  });
+
+  it("should not tell another owner's session apart from a trashed one", async () => {
+    const timestamp = new Date().toISOString();
+    await storageService.saveSession(
+      { sessionId: 'theirs', messages: [{ role: 'user', content: 'Theirs' }], timestamp },
+      { ownerId: 'owner-2' }
+    );
+    await storageService.saveSession(
+      { sessionId: 'trashed', messages: [{ role: 'user', content: 'Mine' }], timestamp },
+      { ownerId: 'owner-1' }
+    );
+    await storageService.deleteSession('trashed', 'owner-1');
+
+    const report = await importService.importLines(
+      linesOf(
+        JSON.stringify({ sessionId: 'theirs', messages: [{ role: 'user', content: 'Mine' }] }),
+        JSON.stringify({ sessionId: 'trashed', messages: [{ role: 'user', content: 'Mine' }] })
+      ),
+      { format: 'native', onConflict: 'replace', ownerId: 'owner-1' }
+    );
+
+    expect(report.records.map(record => record.reason)).toEqual(['Session ID is unavailable', 'Session ID is unavailable']);
+  });
+
+  it('should write and report the records read before the upload fails', async () => {
+    async function* failingLines() {
+      yield JSON.stringify({ sessionId: 'before-failure', messages: [{ role: 'user', content: 'One' }] });
+      throw new PayloadTooLargeError('Import upload must be at most 10 bytes');
+    }
+
+    const error = await importService
+      .importLines(failingLines(), { format: 'native', onConflict: 'skip', ownerId: 'owner-1' })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ImportAbortedError);
+    expect(error).toMatchObject({ status: 413, code: 'PAYLOAD_TOO_LARGE' });
+    expect(error.toResponse().data).toMatchObject({ total: 1, imported: 1 });
+    expect(await storageService.getSession('before-failure', 'owner-1')).not.toBeNull();
+  });
+});
+
+describe('readLines', () => {
+  async function* chunksOf(...chunks: string[]) {
+    yield* chunks.map(chunk => Buffer.from(chunk));
+  }
+
+  async function collect(lines: AsyncIterable<string>) {
+    const collected: string[] = [];
+    for await (const line of lines) {
+      collected.push(line);
+    }
+    return collected;
+  }
+
+  it('should split LF and CRLF lines across chunk boundaries', async () => {
+    const lines = readLines(chunksOf('{"a":1}\r\n{"b"', ':2}\n\n{"c":"é', '"}'), { maxBytes: 100, maxLineBytes: 20 });
+
+    expect(await collect(lines)).toEqual(['{"a":1}', '{"b":2}', '', '{"c":"é"}']);
+  });
+
+  it('should stop once the upload is over the size limit', async () => {
+    const lines = readLines(chunksOf('{"a":1}\n', '{"b":2}\n'), { maxBytes: 10, maxLineBytes: 20 });
+
+    await expect(collect(lines)).rejects.toBeInstanceOf(PayloadTooLargeError);
+  });
+
+  it('should reject a line over the line limit before it ends', async () => {
+    const lines = readLines(chunksOf('{"a":1}\n', 'x'.repeat(15), 'x'.repeat(15)), { maxBytes: 100, maxLineBytes: 20 });
+
+    await expect(collect(lines)).rejects.toThrow('Each import line must be at most 20 bytes');
+  });
+});
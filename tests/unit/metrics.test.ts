@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express, { Router } from 'express';
+import { httpMetrics, requireMetricsToken } from '../../src/middleware/metrics';
+import { countSessionOperation, metricsRegistry } from '../../src/config/metrics';
+
+const router = Router();
+router.get('/items/:id', (req, res) => {
+  res.status(req.params.id === 'missing' ? 404 : 200).json({ id: req.params.id });
+});
+
+const app = express();
+app.use(httpMetrics);
+app.get('/metrics', requireMetricsToken, async (_req, res) => {
+  res.set('Content-Type', metricsRegistry.contentType).send(await metricsRegistry.metrics());
+});
+app.use('/api', router);
+
+async function requestCount(labels: string): Promise<number> {
+  const metrics = await metricsRegistry.metrics();
+  const line = metrics.split('\n').find(sample => sample.startsWith(`techspec_http_requests_total{${labels}}`));
+  return line ? Number(line.split(' ').pop()) : 0;
+}
+
+describe('httpMetrics', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  it('should label requests with the matched route pattern and status', async () => {
+    await request(app).get('/api/items/1');
+    await request(app).get('/api/items/2');
+    await request(app).get('/api/items/missing');
+
+    expect(await requestCount('method="GET",route="/api/items/:id",status="200"')).toBe(2);
+    expect(await requestCount('method="GET",route="/api/items/:id",status="404"')).toBe(1);
+
+    const metrics = await metricsRegistry.metrics();
+    expect(metrics).toContain('techspec_http_request_duration_seconds_count{method="GET",route="/api/items/:id",status="200"} 2');
+  });
+
+  it('should label unknown paths as unmatched', async () => {
+    await request(app).get('/api/nowhere/42');
+
+    expect(await requestCount('method="GET",route="unmatched",status="404"')).toBe(1);
+    expect(await metricsRegistry.metrics()).not.toContain('/api/nowhere/42');
+  });
+});
+
+describe('metrics registry', () => {
+  it('should expose session, database and process metrics', async () => {
+    countSessionOperation('save', 'ok');
+    countSessionOperation('import', 'rejected', 3);
+
+    const metrics = await metricsRegistry.metrics();
+
+    expect(metrics).toContain('techspec_session_operations_total{operation="save",result="ok"} 1');
+    expect(metrics).toContain('techspec_session_operations_total{operation="import",result="rejected"} 3');
+    expect(metrics).toContain('# TYPE techspec_db_query_duration_seconds histogram');
+    expect(metrics).toContain('# TYPE techspec_db_connections gauge');
+    expect(metrics).toContain('process_cpu_user_seconds_total');
+    expect(metrics).toContain('nodejs_eventloop_lag_seconds');
+  });
+});
+
+describe('requireMetricsToken', () => {
+  afterEach(() => {
+    delete process.env.METRICS_TOKEN;
+  });
+
+  it('should serve metrics without a token when METRICS_TOKEN is unset', async () => {
+    const response = await request(app).get('/metrics');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/plain/);
+  });
+
+  it('should require the configured bearer token', async () => {
+    process.env.METRICS_TOKEN = 'scrape-secret';
+
+    const missing = await request(app).get('/metrics');
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(missing.body.message).toBe('Missing or invalid metrics token');
+
+    const wrong = await request(app).get('/metrics').set('Authorization', 'Bearer scrape-secreT');
+    expect(wrong.status).toBe(401);
+
+    const valid = await request(app).get('/metrics').set('Authorization', 'Bearer scrape-secret');
+    expect(valid.status).toBe(200);
+    expect(valid.text).toContain('techspec_http_requests_total');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import { rateLimit, byClientAddress, MemoryRateLimitStore } from '../../src/middleware/rate-limit';
+import type { RateLimitStore } from '../../src/middleware/rate-limit';
+
+function mockRequest(overrides: Partial<Request> = {}): Request {
+  return { ip: '203.0.113.7', ...overrides } as Request;
+}
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    set(field: string | Record<string, string>, value?: string) {
+      Object.assign(res.headers, typeof field === 'string' ? { [field]: value } : field);
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+async function send(middleware: ReturnType<typeof rateLimit>, req = mockRequest()) {
+  const res = mockResponse();
+  const next = vi.fn() as unknown as NextFunction;
+  await middleware(req, res as unknown as Response, next);
+  return { res, next: next as unknown as ReturnType<typeof vi.fn> };
+}
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    process.env.RATE_LIMIT_ENABLED = 'true';
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    process.env.RATE_LIMIT_ENABLED = 'false';
+    delete process.env.RATE_LIMIT_TEST;
+    vi.useRealTimers();
+  });
+
+  it('should allow requests up to the limit with RateLimit headers', async () => {
+    const limiter = rateLimit({ name: 'test', limit: 2, windowMs: 60_000 });
+
+    const first = await send(limiter);
+    const second = await send(limiter);
+
+    expect(first.next).toHaveBeenCalled();
+    expect(second.next).toHaveBeenCalled();
+    expect(first.res.headers).toMatchObject({
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1',
+      'RateLimit-Reset': '60',
+      'RateLimit-Policy': '2;w=60',
+    });
+    expect(second.res.headers['RateLimit-Remaining']).toBe('0');
+  });
+
+  it('should answer 429 with Retry-After once the limit is exceeded', async () => {
+    const limiter = rateLimit({ name: 'test', limit: 1, windowMs: 60_000 });
+
+    await send(limiter);
+    vi.advanceTimersByTime(15_000);
+    const { res, next } = await send(limiter);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('45');
+    expect(res.body).toMatchObject({ success: false, error: 'Too many requests' });
+  });
+
+  it('should start a new window after the reset', async () => {
+    const limiter = rateLimit({ name: 'test', limit: 1, windowMs: 60_000 });
+
+    await send(limiter);
+    vi.advanceTimersByTime(60_000);
+    const { next } = await send(limiter);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should count principals and IP addresses separately', async () => {
+    const limiter = rateLimit({ name: 'test', limit: 1, windowMs: 60_000 });
+    const principal = { id: 'user-1', role: 'user', method: 'api-key' } as Request['principal'];
+
+    await send(limiter, mockRequest({ principal }));
+    const samePrincipal = await send(limiter, mockRequest({ principal, ip: '198.51.100.1' }));
+    const anonymous = await send(limiter);
+
+    expect(samePrincipal.res.statusCode).toBe(429);
+    expect(anonymous.next).toHaveBeenCalled();
+  });
+
+  it('should count by IP address alone with byClientAddress', async () => {
+    const limiter = rateLimit({ name: 'test', limit: 1, windowMs: 60_000, keyGenerator: byClientAddress });
+    const principal = { id: 'user-1', role: 'user', method: 'api-key' } as Request['principal'];
+
+    await send(limiter);
+    const authenticated = await send(limiter, mockRequest({ principal }));
+    const otherAddress = await send(limiter, mockRequest({ ip: '198.51.100.1' }));
+
+    expect(authenticated.res.statusCode).toBe(429);
+    expect(otherAddress.next).toHaveBeenCalled();
+  });
+
+  it('should use the RATE_LIMIT_<NAME> override', async () => {
+    process.env.RATE_LIMIT_TEST = '1/10';
+    const limiter = rateLimit({ name: 'test', limit: 100, windowMs: 60_000 });
+
+    const { res } = await send(limiter);
+
+    expect(res.headers['RateLimit-Policy']).toBe('1;w=10');
+  });
+
+  it('should let requests through when disabled or when the store fails', async () => {
+    const failing: RateLimitStore = {
+      increment: () => Promise.reject(new Error('store down')),
+      reset: () => Promise.resolve(),
+    };
+
+    expect((await send(rateLimit({ name: 'test', limit: 1, windowMs: 1000, store: failing }))).next).toHaveBeenCalled();
+
+    process.env.RATE_LIMIT_ENABLED = 'false';
+    const limiter = rateLimit({ name: 'test', limit: 0, windowMs: 1000 });
+    expect((await send(limiter)).next).toHaveBeenCalled();
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('should reset a key', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('key', 1000);
+    await store.reset('key');
+
+    expect((await store.increment('key', 1000)).count).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { requestContext } from '../../src/middleware/request-context';
+import { getRequestId } from '../../src/config/request-context';
+
+const app = express();
+app.use(requestContext);
+app.use(express.json());
+app.post('/echo', async (req, res) => {
+  // The context survives body parsing and awaits
+  await new Promise(resolve => setTimeout(resolve, 5));
+  res.json({ fromContext: getRequestId(), fromRequest: req.requestId });
+});
+
+describe('requestContext', () => {
+  it('should create a request ID and expose it to handlers and the response', async () => {
+    const response = await request(app).post('/echo').send({ value: 1 });
+
+    const requestId = response.headers['x-request-id'];
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.body).toEqual({ fromContext: requestId, fromRequest: requestId });
+  });
+
+  it("should keep the caller's request ID", async () => {
+    const response = await request(app).post('/echo').set('X-Request-Id', 'trace-1234.abc:9').send({});
+
+    expect(response.headers['x-request-id']).toBe('trace-1234.abc:9');
+    expect(response.body.fromContext).toBe('trace-1234.abc:9');
+  });
+
+  it('should replace request IDs that are not plain tokens', async () => {
+    for (const invalid of ['has spaces', 'a'.repeat(129), 'line\tbreak', '<script>']) {
+      const response = await request(app).post('/echo').set('X-Request-Id', invalid).send({});
+
+      expect(response.headers['x-request-id']).not.toBe(invalid);
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    }
+  });
+
+  it('should keep concurrent requests apart', async () => {
+    const ids = ['req-a', 'req-b', 'req-c'];
+    const responses = await Promise.all(ids.map(id => request(app).post('/echo').set('X-Request-Id', id).send({})));
+
+    expect(responses.map(response => response.body.fromContext)).toEqual(ids);
+  });
+
+  it('should have no request ID outside a request', () => {
+    expect(getRequestId()).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { retentionService, toExpiryRules } from '../../src/services/retention.service';
+import { parseRetentionPolicy } from '../../src/config/retention';
+import { storageService } from '../../src/services/storage.service';
+import { prisma } from '../../src/config/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('parseRetentionPolicy', () => {
+  it('should fill in defaults', () => {
+    expect(parseRetentionPolicy('{"maxAgeDays":90}')).toEqual({
+      enabled: true,
+      field: 'updatedAt',
+      maxAgeDays: 90,
+      rules: [],
+      action: 'archive',
+      intervalMinutes: 1440,
+      batchSize: 500,
+    });
+  });
+
+  it('should reject invalid policies', () => {
+    expect(() => parseRetentionPolicy('not json')).toThrow('RETENTION_POLICY is not valid JSON');
+    expect(() => parseRetentionPolicy('{"action":"shred"}')).toThrow('RETENTION_POLICY.action must be one of: delete, archive');
+    expect(() => parseRetentionPolicy('{"rules":[{"metadata":{},"maxAgeDays":1}]}')).toThrow('must have at least 1 property');
+    expect(() => parseRetentionPolicy('{"intervalMinutes":60000}')).toThrow('RETENTION_POLICY.intervalMinutes must be <= 35791');
+  });
+});
+
+describe('toExpiryRules', () => {
+  it('should put metadata rules before the catch-all', () => {
+    const now = new Date('2024-06-01T00:00:00.000Z');
+    const rules = toExpiryRules(
+      parseRetentionPolicy('{"maxAgeDays":30,"rules":[{"metadata":{"clientVersion":"beta"},"maxAgeDays":1,"field":"timestamp"}]}'),
+      now
+    );
+
+    expect(rules).toEqual([
+      { metadata: { clientVersion: 'beta' }, maxAgeDays: 1, field: 'timestamp', cutoff: new Date('2024-05-31T00:00:00.000Z') },
+      { field: 'updatedAt', maxAgeDays: 30, cutoff: new Date('2024-05-02T00:00:00.000Z') },
+    ]);
+  });
+});
+
+describe('RetentionService', () => {
+  const policy = parseRetentionPolicy(JSON.stringify({
+    field: 'timestamp',
+    maxAgeDays: 30,
+    rules: [{ metadata: { clientVersion: 'beta' }, maxAgeDays: 1 }],
+    batchSize: 1,
+  }));
+
+  async function seed(sessionId: string, ageDays: number, clientVersion?: string) {
+    await storageService.saveSession({
+      sessionId,
+      messages: [{ role: 'user', content: 'Hello' }],
+      timestamp: new Date(Date.now() - ageDays * DAY_MS).toISOString(),
+      ...(clientVersion && { metadata: { clientVersion } }),
+    });
+  }
+
+  beforeEach(async () => {
+    await prisma.chatSession.deleteMany();
+    await seed('old', 60);
+    await seed('recent', 5);
+    await seed('beta-old', 2, 'beta');
+    await seed('beta-new', 0.5, 'beta');
+  });
+
+  afterEach(async () => {
+    await prisma.chatSession.deleteMany();
+  });
+
+  it('should report matches per rule without changing anything', async () => {
+    const report = await retentionService.dryRun(policy);
+
+    expect(report.total).toBe(2);
+    expect(report.rules.map(rule => rule.matched)).toEqual([1, 1]);
+    expect(report.sample.sort()).toEqual(['beta-old', 'old']);
+    expect(await storageService.getSessionCount()).toBe(4);
+  });
+
+  it('should archive expired sessions into the trash in batches', async () => {
+    const processed = await retentionService.apply(policy);
+
+    expect(processed).toBe(2);
+    expect(await storageService.getSession('old')).toBeNull();
+    expect(await storageService.getSession('beta-old')).toBeNull();
+    expect(await storageService.getSession('recent')).not.toBeNull();
+    expect(await storageService.getSession('beta-new')).not.toBeNull();
+    expect(await prisma.chatSession.count()).toBe(4);
+  });
+
+  it('should permanently delete expired sessions with the delete action', async () => {
+    const processed = await retentionService.apply({ ...policy, action: 'delete' });
+
+    expect(processed).toBe(2);
+    expect(await prisma.chatSession.count()).toBe(2);
+  });
+});
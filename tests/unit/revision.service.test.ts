@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { diffMessages } from '../../src/services/revision.service';
+import type { Message } from '../../src/types';
+
+const user = (content: string): Message => ({ role: 'user', content });
+const model = (content: string): Message => ({ role: 'model', content });
+
+describe('diffMessages', () => {
+  it('should report no changes for identical transcripts', () => {
+    const messages = [user('Hi'), model('Hello')];
+
+    expect(diffMessages(messages, [...messages])).toEqual([]);
+  });
+
+  it('should report messages appended at the end', () => {
+    expect(diffMessages([user('Hi')], [user('Hi'), model('Hello')])).toEqual([
+      { type: 'added', toIndex: 1, message: model('Hello') },
+    ]);
+  });
+
+  it('should align messages around an insertion instead of marking everything edited', () => {
+    const before = [user('A'), model('B'), user('C')];
+    const after = [user('A'), user('New'), model('B'), user('C')];
+
+    expect(diffMessages(before, after)).toEqual([
+      { type: 'added', toIndex: 1, message: user('New') },
+    ]);
+  });
+
+  it('should pair a removed and an added message with the same role as an edit', () => {
+    const before = [user('Design a webhook'), model('Use polling')];
+    const after = [user('Design a webhook'), model('Use retries'), user('Thanks')];
+
+    expect(diffMessages(before, after)).toEqual([
+      { type: 'edited', fromIndex: 1, toIndex: 1, before: model('Use polling'), after: model('Use retries') },
+      { type: 'added', toIndex: 2, message: user('Thanks') },
+    ]);
+  });
+
+  it('should report removals with their original index', () => {
+    const before = [user('A'), model('B'), user('C'), model('D')];
+    const after = [user('A'), model('D')];
+
+    expect(diffMessages(before, after)).toEqual([
+      { type: 'removed', fromIndex: 1, message: model('B') },
+      { type: 'removed', fromIndex: 2, message: user('C') },
+    ]);
+  });
+
+  it('should ignore message timestamps', () => {
+    const before = [{ ...user('Hi'), timestamp: '2024-01-01T00:00:00.000Z' }];
+
+    expect(diffMessages(before, [user('Hi')])).toEqual([]);
+  });
+});
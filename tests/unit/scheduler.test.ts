@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MAX_INTERVAL_MS, scheduler } from '../../src/jobs/scheduler';
+import type { ScheduledJob } from '../../src/jobs/scheduler';
+import { createTrashPurgeJob } from '../../src/jobs/trash-purge.job';
+
+function createJob(run: () => Promise<void>, name = 'test-job'): ScheduledJob {
+  return { name, intervalMs: 1000, run };
+}
+
+describe('Scheduler', () => {
+  afterEach(() => {
+    scheduler.stopAll();
+    vi.useRealTimers();
+  });
+
+  it('should run a job at startup and on every interval', async () => {
+    vi.useFakeTimers();
+    const run = vi.fn().mockResolvedValue(undefined);
+
+    scheduler.schedule(createJob(run));
+    await vi.advanceTimersByTimeAsync(2500);
+
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('should skip a run while the previous one is in progress', async () => {
+    let finish!: () => void;
+    const job = createJob(() => new Promise<void>(resolve => { finish = resolve; }));
+
+    const first = scheduler.runOnce(job);
+
+    expect(await scheduler.runOnce(job)).toBe(false);
+    finish();
+    expect(await first).toBe(true);
+  });
+
+  it('should keep the schedule running after a failure', async () => {
+    const job = createJob(() => Promise.reject(new Error('boom')));
+
+    await expect(scheduler.runOnce(job)).resolves.toBe(true);
+  });
+
+  it('should refuse to schedule the same job twice', () => {
+    const job = createJob(() => Promise.resolve());
+    vi.useFakeTimers();
+
+    scheduler.schedule(job);
+
+    expect(() => scheduler.schedule(job)).toThrow('Job already scheduled: test-job');
+  });
+
+  it('should refuse intervals a timer cannot represent', () => {
+    const run = () => Promise.resolve();
+
+    expect(() => scheduler.schedule({ name: 'too-long', intervalMs: MAX_INTERVAL_MS + 1, run })).toThrow(
+      `Job interval must be between 1 and ${MAX_INTERVAL_MS} ms: too-long`
+    );
+    expect(() => scheduler.schedule({ name: 'zero', intervalMs: 0, run })).toThrow();
+  });
+});
+
+describe('createTrashPurgeJob', () => {
+  afterEach(() => {
+    delete process.env.TRASH_PURGE_INTERVAL_MINUTES;
+  });
+
+  it('should fall back to the default for intervals over the timer limit', () => {
+    process.env.TRASH_PURGE_INTERVAL_MINUTES = '60000';
+
+    expect(createTrashPurgeJob().intervalMs).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { specService, LocalSpecGenerator } from '../../src/services/spec.service';
+import type { SpecGenerator } from '../../src/services/spec.service';
+import { storageService } from '../../src/services/storage.service';
+import { prisma } from '../../src/config/database';
+import type { ChatSession } from '../../src/types';
+
+const session: ChatSession = {
+  sessionId: 'spec-session-1',
+  messages: [
+    { role: 'user', content: 'We are building a payment webhook service. It should retry failed deliveries.' },
+    { role: 'model', content: 'The backend service can store events in a queue. A risk is duplicate delivery.' },
+    { role: 'user', content: 'It must be idempotent. Multi-currency support is out of scope. How long do we keep events?' },
+  ],
+  timestamp: new Date().toISOString(),
+};
+
+describe('LocalSpecGenerator', () => {
+  const generator = new LocalSpecGenerator();
+
+  it('should build every section from the transcript', async () => {
+    const sections = await generator.generate(session);
+
+    expect(sections.overview).toBe('We are building a payment webhook service. It should retry failed deliveries.');
+    expect(sections.goals).toContain('It should retry failed deliveries.');
+    expect(sections.requirements).toContain('It must be idempotent.');
+    expect(sections.nonGoals).toContain('Multi-currency support is out of scope.');
+    expect(sections.architecture).toContain('The backend service can store events in a queue.');
+    expect(sections.risks).toContain('A risk is duplicate delivery.');
+    expect(sections.openQuestions).toEqual(['How long do we keep events?']);
+  });
+
+  it('should be deterministic', async () => {
+    const first = await generator.generate(session);
+    const second = await generator.generate(session);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should fall back to a placeholder overview without user messages', async () => {
+    const sections = await generator.generate({
+      ...session,
+      messages: [{ role: 'model', content: 'Hello!' }],
+    });
+
+    expect(sections.overview).toBe('No overview available.');
+  });
+});
+
+describe('SpecService', () => {
+  beforeEach(async () => {
+    await prisma.chatSession.deleteMany();
+  });
+
+  afterEach(async () => {
+    specService.setGenerator(new LocalSpecGenerator());
+    await prisma.chatSession.deleteMany();
+  });
+
+  it('should generate and persist a spec for an existing session', async () => {
+    await storageService.saveSession(session);
+
+    const spec = await specService.generateSpec('spec-session-1');
+
+    expect(spec).not.toBeNull();
+    expect(spec?.sessionId).toBe('spec-session-1');
+    expect(spec?.generator).toBe('local');
+
+    const stored = await prisma.techSpec.findMany({ where: { sessionId: 'spec-session-1' } });
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should use a custom generator when one is configured', async () => {
+    const fixed: SpecGenerator = {
+      name: 'fixed',
+      generate: async () => ({
+        overview: 'Fixed overview',
+        goals: ['Goal'],
+        nonGoals: [],
+        requirements: [],
+        architecture: [],
+        openQuestions: [],
+        risks: [],
+      }),
+    };
+    specService.setGenerator(fixed);
+    await storageService.saveSession(session);
+
+    const spec = await specService.generateSpec('spec-session-1');
+
+    expect(spec?.generator).toBe('fixed');
+    expect(spec?.overview).toBe('Fixed overview');
+    expect(spec?.goals).toEqual(['Goal']);
+  });
+
+  it('should return null for non-existent session', async () => {
+    const spec = await specService.generateSpec('non-existent');
+    expect(spec).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { validateMessageLimits, validateSchema } from '../../src/middleware/validation';
+import type { ValidationErrorDetail } from '../../src/middleware/validation';
+import { schemas, parameterSchemas } from '../../src/config/schemas';
+import { parseByteSize } from '../../src/config/limits';
+
+function validate(schemaName: string, value: unknown, coerce = false) {
+  const errors: ValidationErrorDetail[] = [];
+  const schema = schemas[schemaName] ?? parameterSchemas[schemaName];
+  const result = validateSchema(schema, value, 'body', errors, coerce);
+  return { result, errors };
+}
+
+describe('validateSchema', () => {
+  it('should accept a valid save request', () => {
+    const { errors } = validate('SaveChatRequest', {
+      sessionId: 'chat-1',
+      messages: [{ role: 'user', content: 'Hello', timestamp: '2024-01-01T00:00:00.000Z' }],
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should report every problem with its field path', () => {
+    const { errors } = validate('SaveChatRequest', {
+      messages: [{ role: 'system', content: 42, extra: true }],
+      timestamp: 'yesterday',
+      unexpected: 'field',
+    });
+
+    expect(errors).toEqual([
+      { path: 'body.messages[0].role', message: 'must be one of: user, model' },
+      { path: 'body.messages[0].content', message: 'must be of type string' },
+      { path: 'body.messages[0].extra', message: 'is not allowed' },
+      { path: 'body.timestamp', message: 'must be an ISO 8601 date-time' },
+      { path: 'body.unexpected', message: 'is not allowed' },
+    ]);
+  });
+
+  it('should require messages and reject an empty list', () => {
+    expect(validate('SaveChatRequest', {}).errors).toEqual([
+      { path: 'body.messages', message: 'is required' },
+    ]);
+    expect(validate('SaveChatRequest', { messages: [] }).errors).toEqual([
+      { path: 'body.messages', message: 'must contain at least 1 items' },
+    ]);
+  });
+
+  it('should reject dates that match the format but do not exist', () => {
+    const { errors } = validate('AppendMessagesRequest', {
+      messages: [{ role: 'user', content: 'Hi' }],
+      timestamp: '2024-13-45T00:00:00.000Z',
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toBe('body.timestamp');
+  });
+
+  it('should require at least one bulk delete criterion', () => {
+    expect(validate('BulkDeleteRequest', {}).errors).toHaveLength(1);
+    expect(validate('BulkDeleteRequest', { sessionIds: ['chat-1'] }).errors).toEqual([]);
+  });
+
+  it('should bound custom metadata keys and values', () => {
+    const tooMany = Object.fromEntries(Array.from({ length: 21 }, (_, i) => [`key${i}`, 'value']));
+
+    expect(validate('UpdateSessionRequest', { metadata: { team: 'billing', 'ticket.id': 'OPS-42' } }).errors).toEqual([]);
+    expect(validate('UpdateSessionRequest', { metadata: tooMany }).errors).toEqual([
+      { path: 'body.metadata', message: 'must have at most 20 properties' },
+    ]);
+    expect(validate('UpdateSessionRequest', { metadata: { 'team name': 'billing', team: 42, note: 'x'.repeat(501) } }).errors).toEqual([
+      { path: 'body.metadata.team name', message: 'is not an allowed name: must match pattern ^[A-Za-z0-9_.-]{1,64}$' },
+      { path: 'body.metadata.team', message: 'must be of type string' },
+      { path: 'body.metadata.note', message: 'must be at most 500 characters' },
+    ]);
+  });
+
+  it('should coerce query string values when requested', () => {
+    const { result, errors } = validate('ListSessionsQuery', { limit: '10', order: 'asc' }, true);
+
+    expect(errors).toEqual([]);
+    expect(result).toEqual({ limit: 10, order: 'asc' });
+  });
+
+  it('should not coerce non-numeric strings', () => {
+    const { errors } = validate('ListSessionsQuery', { limit: 'ten' }, true);
+
+    expect(errors).toEqual([{ path: 'body.limit', message: 'must be of type integer' }]);
+  });
+});
+
+describe('validateMessageLimits', () => {
+  const limits = { maxBodyBytes: 1024, maxImportBytes: 4096, maxMessagesPerSession: 3, maxMessageChars: 10, maxSessionChars: 15 };
+
+  it('should accept messages within the limits', () => {
+    const errors: ValidationErrorDetail[] = [];
+    validateMessageLimits([{ role: 'user', content: 'Hello' }], 'body.messages', errors, limits);
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should report long messages and the session total', () => {
+    const errors: ValidationErrorDetail[] = [];
+    validateMessageLimits(
+      [{ role: 'user', content: 'Hello' }, { role: 'model', content: 'Hello world!' }],
+      'body.messages',
+      errors,
+      limits
+    );
+
+    expect(errors).toEqual([
+      { path: 'body.messages[1].content', message: 'must be at most 10 characters' },
+      { path: 'body.messages', message: 'would bring the session to 17 characters, more than the limit of 15' },
+    ]);
+  });
+
+  it('should include messages already stored in the session', () => {
+    const errors: ValidationErrorDetail[] = [];
+    validateMessageLimits([{ role: 'user', content: 'Hi' }], 'body.messages', errors, limits, { count: 3, chars: 4 });
+
+    expect(errors).toEqual([
+      { path: 'body.messages', message: 'would bring the session to 4 messages, more than the limit of 3' },
+    ]);
+  });
+});
+
+describe('parseByteSize', () => {
+  it('should parse sizes with units', () => {
+    expect(parseByteSize('2mb')).toBe(2 * 1024 * 1024);
+    expect(parseByteSize('500 KB')).toBe(500 * 1024);
+    expect(parseByteSize('1048576')).toBe(1048576);
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(parseByteSize('lots')).toBeNull();
+    expect(parseByteSize('0mb')).toBeNull();
+  });
+});